@@ -0,0 +1,242 @@
+import { get, resolve } from './openapi'
+import type { OpenApiCredentials } from './types/openapi'
+
+/**
+ * Authentication of requests by the security requirements of an OpenAPI document, see {@linkcode openApiAuth}.
+ */
+export type ClientAuth = {
+    /**
+     * Send a request attempt of an operation with the credentials of its security requirement.
+     *
+     * @param path Path template of the operation, such as `/users/{id}`.
+     * @param method Operation method.
+     * @param request Request to authenticate.
+     * @param next Send the authenticated request.
+     */
+    authorize: (
+        path: string,
+        method: string,
+        request: Request,
+        next: (request: Request) => Promise<Response>,
+    ) => Promise<Response>
+
+    /**
+     * Security scheme names whose credentials are applied to the requests of an operation, `undefined` if none.
+     * Clients treat all requests as sent with credentials if it is not implemented.
+     *
+     * @param path Path template of the operation, such as `/users/{id}`.
+     * @param method Operation method.
+     */
+    requirement?: (path: string, method: string) => string[] | undefined
+}
+
+/**
+ * Secret value, such as an API key or token, or a function returning it, called for each request.
+ */
+export type AuthSecret = string | (() => string | Promise<string>)
+
+/**
+ * Credentials of an OAuth2 flow whose access tokens are requested by the client:
+ * - Client credentials flow: `clientId` and `clientSecret`, using the `clientCredentials` flow `tokenUrl`.
+ * - Refresh token flow: `refreshToken`, and optionally a first `accessToken`, using the `refreshUrl` or `tokenUrl` of
+ *   the first flow declaring one. Refresh tokens returned by the token endpoint replace the previous one.
+ *
+ * The client is authenticated with HTTP basic authentication if `clientSecret` is set, or with `client_id` otherwise.
+ */
+export type OAuth2Credentials =
+    | { clientId: string; clientSecret?: string; scopes?: string[] }
+    | { refreshToken: string; accessToken?: string; clientId?: string; clientSecret?: string; scopes?: string[] }
+
+/**
+ * Create a {@linkcode ClientAuth} from an OpenAPI document, the same document used with `FromOpenApiSpec`, and the
+ * credentials of its security schemes, typed by the document if declared `as const`.
+ *
+ * Each operation is authenticated with the first of its `security` requirements, or of the document ones, whose
+ * schemes all have credentials. Requests of undeclared operations use the document requirements.
+ * - `apiKey` schemes set their header, query parameter, or cookie.
+ * - `http` basic schemes set the `authorization` header with the username and password, other `http` schemes and
+ *   `openIdConnect` schemes set it with the token, such as `Bearer <token>`.
+ * - `oauth2` schemes set `Bearer <token>` with the token, or with an access token of {@linkcode OAuth2Credentials}.
+ *
+ * Access tokens are cached until they expire, and concurrent requests share a single token request. Attempts
+ * rejected with `401` are sent once more with a new access token. Failed token requests fail the attempt like network
+ * errors. Token requests are aborted with the attempt requesting them, such as on `attemptTimeout`, and the other
+ * attempts waiting for them request a new token.
+ *
+ * @param document OpenAPI document.
+ * @param credentials Credentials by security scheme name.
+ */
+export const openApiAuth = <const Spec>(document: Spec, credentials: OpenApiCredentials<Spec>): ClientAuth => {
+    const secrets = credentials as { [_ in string]?: AuthSecret | OAuth2Flow | BasicCredentials }
+    const schemeOf = (name: string) =>
+        (resolve(document, get(document, 'components', 'securitySchemes', name)) ?? {}) as SecurityScheme
+    const flowOf = (name: string) => {
+        const value = secrets[name]
+        return value && typeof value === 'object' && ('clientId' in value || 'refreshToken' in value)
+            ? value
+            : undefined
+    }
+    const tokens = new Map<string, Promise<OAuth2Token>>()
+    for (const name of Object.keys(secrets)) {
+        const { accessToken, refreshToken } = flowOf(name) ?? {}
+        if (accessToken)
+            tokens.set(name, Promise.resolve({ access: accessToken, refresh: refreshToken, expires: Infinity }))
+    }
+
+    const requirement = (path: string, method: string) => {
+        const operation = get(resolve(document, get(document, 'paths', path)), method.toLowerCase())
+        const requirements = (get(operation, 'security') ?? get(document, 'security') ?? []) as object[]
+        return requirements
+            .map(requirement => Object.keys(requirement))
+            .find(names => names.length && names.every(name => secrets[name] !== undefined))
+    }
+
+    const accessToken = async (name: string, request: Request, rejected?: string): Promise<string> => {
+        const promise = tokens.get(name)
+        const cached = Promise.resolve(promise).catch(() => undefined)
+        const token = await abortable(cached, request.signal)
+        if (token && token.access !== rejected && token.expires > Date.now()) return token.access
+        if (tokens.get(name) === promise || !tokens.has(name)) {
+            const started: Promise<OAuth2Token> = requestToken(name, request, token).catch(error => {
+                if (request.signal.aborted && tokens.get(name) === started)
+                    if (promise) tokens.set(name, promise)
+                    else tokens.delete(name)
+                throw error
+            })
+            tokens.set(name, started)
+        }
+        const pending = tokens.get(name)!
+        try {
+            return (await abortable(pending, request.signal)).access
+        } catch (error) {
+            if (request.signal.aborted || tokens.get(name) === pending) throw error
+            return accessToken(name, request, rejected)
+        }
+    }
+
+    const requestToken = async (name: string, request: Request, previous?: OAuth2Token): Promise<OAuth2Token> => {
+        const { clientId, clientSecret, scopes, refreshToken } = flowOf(name)!
+        const refresh = previous?.refresh ?? refreshToken
+        const flows = schemeOf(name).flows ?? {}
+        const tokenUrl = refresh
+            ? (Object.values(flows).find(flow => flow.refreshUrl)?.refreshUrl ??
+              Object.values(flows).find(flow => flow.tokenUrl)?.tokenUrl)
+            : flows.clientCredentials?.tokenUrl
+        if (!tokenUrl) throw new Error(`Missing OAuth2 token URL of security scheme '${name}'`)
+        const body = new URLSearchParams(
+            refresh ? { grant_type: 'refresh_token', refresh_token: refresh } : { grant_type: 'client_credentials' },
+        )
+        if (scopes?.length) body.set('scope', scopes.join(' '))
+        if (clientId && clientSecret === undefined) body.set('client_id', clientId)
+        const headers: { [_ in string]: string } = { accept: 'application/json' }
+        if (clientId && clientSecret !== undefined)
+            headers['authorization'] = `Basic ${base64(`${encodeForm(clientId)}:${encodeForm(clientSecret)}`)}`
+        const init = { method: 'POST', headers, body, signal: request.signal }
+        const response = await globalThis.fetch(new URL(tokenUrl, request.url), init)
+        if (!response.ok) throw new Error(`OAuth2 token request of '${name}' failed with status ${response.status}`)
+        const { access_token, expires_in, refresh_token } = await response.json()
+        const expires = typeof expires_in === 'number' ? Date.now() + expires_in * 1000 : Infinity
+        return { access: access_token, refresh: refresh_token ?? refresh, expires }
+    }
+
+    const sign = async (names: string[], request: Request, rejected: { [_ in string]?: string } = {}) => {
+        const url = new URL(request.url)
+        const headers = new Headers(request.headers)
+        const used: { [_ in string]?: string } = {}
+        for (const name of names) {
+            const scheme = schemeOf(name)
+            const value = secrets[name]!
+            if (scheme.type === 'http' && /^basic$/i.test(scheme.scheme)) {
+                const { username, password } = value as BasicCredentials
+                headers.set('authorization', `Basic ${base64(`${username}:${password}`)}`)
+                continue
+            }
+            const flow = flowOf(name)
+            const secret = flow
+                ? (used[name] = await accessToken(name, request, rejected[name]))
+                : await (typeof value === 'function' ? value() : (value as string))
+            if (scheme.type !== 'apiKey') {
+                const type = scheme.type === 'http' && !/^bearer$/i.test(scheme.scheme) ? scheme.scheme : 'Bearer'
+                headers.set('authorization', `${type} ${secret}`)
+            } else if (scheme.in === 'query') url.searchParams.set(scheme.name, secret)
+            else if (scheme.in === 'cookie')
+                headers.set('cookie', [headers.get('cookie'), `${scheme.name}=${secret}`].filter(v => v).join('; '))
+            else headers.set(scheme.name, secret)
+        }
+        return [new Request(url, new Request(request, { headers })), used] as const
+    }
+
+    return {
+        requirement,
+        authorize: async (path, method, request, next) => {
+            const names = requirement(path, method)
+            if (!names) return next(request)
+            const replay = names.some(flowOf) ? request.clone() : undefined
+            const [signed, used] = await sign(names, request)
+            const response = await next(signed)
+            if (response.status !== 401 || !replay) return response
+            await response.body?.cancel()
+            return next((await sign(names, replay, used))[0])
+        },
+    }
+}
+
+/**
+ * OpenAPI security scheme object, with the fields read to apply credentials, required by the scheme types using them.
+ */
+type SecurityScheme = {
+    type: string
+    scheme: string
+    in: string
+    name: string
+    flows?: { [_ in string]: { tokenUrl?: string; refreshUrl?: string } }
+}
+
+/**
+ * Credentials of `http` basic security schemes.
+ */
+type BasicCredentials = { username: string; password: string }
+
+/**
+ * Any {@linkcode OAuth2Credentials}.
+ */
+type OAuth2Flow = {
+    clientId?: string
+    clientSecret?: string
+    scopes?: string[]
+    refreshToken?: string
+    accessToken?: string
+}
+
+/**
+ * OAuth2 access token, with its refresh token and expiration time in milliseconds.
+ */
+type OAuth2Token = { access: string; refresh?: string; expires: number }
+
+/**
+ * Wait for a promise, rejecting with the abort reason of `signal` if it is aborted first.
+ *
+ * @param promise Promise to wait for.
+ * @param signal Signal aborting the wait.
+ */
+const abortable = <T>(promise: Promise<T>, signal: AbortSignal) =>
+    new Promise<T>((resolve, reject) => {
+        const abort = () => reject(signal.reason)
+        if (signal.aborted) return abort()
+        signal.addEventListener('abort', abort, { once: true })
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', abort))
+    })
+
+/**
+ * Encode a text as base64, from its UTF-8 bytes.
+ *
+ * @param text Text to encode.
+ */
+const base64 = (text: string) => btoa(String.fromCharCode(...new TextEncoder().encode(text)))
+
+/**
+ * Encode an OAuth2 client identifier or secret with the `application/x-www-form-urlencoded` encoding.
+ *
+ * @param text Text to encode.
+ */
+const encodeForm = (text: string) => `${new URLSearchParams({ _: text })}`.slice(2)
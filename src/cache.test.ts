@@ -0,0 +1,42 @@
+import { expect, test } from 'bun:test'
+import { cacheEntry, lookupEntry, memoryCache } from './cache'
+
+test('memory cache eviction', async () => {
+    const cache = memoryCache(2)
+    const entry = cacheEntry(new Response(null, { headers: { etag: '"1"' } }), null, new Headers())!
+    cache.set('a', entry)
+    cache.set('b', entry)
+    cache.get('a')
+    cache.set('c', entry)
+    expect([cache.get('a'), cache.get('b'), cache.get('c')]).toEqual([entry, undefined, entry])
+})
+
+test('cache entries', async () => {
+    const response = (headers: HeadersInit) => new Response(null, { headers })
+    expect(cacheEntry(response({}), null, new Headers())).toBeUndefined()
+    expect(cacheEntry(response({ 'cache-control': 'no-store, max-age=60' }), null, new Headers())).toBeUndefined()
+    expect(cacheEntry(response({ etag: '"1"', vary: '*' }), null, new Headers())).toBeUndefined()
+    expect(cacheEntry(response({ 'cache-control': 'private, max-age=60' }), null, new Headers())).toBeUndefined()
+    const authorized = new Headers({ authorization: 'Bearer token' })
+    expect(cacheEntry(response({ 'cache-control': 'max-age=60' }), null, authorized)).toBeUndefined()
+    expect(cacheEntry(response({ 'cache-control': 'max-age=60' }), null, new Headers(), true)).toBeUndefined()
+    expect(cacheEntry(response({ 'cache-control': 'public, max-age=60' }), null, authorized)).toBeDefined()
+
+    const cache = memoryCache()
+    const vary = response({ 'cache-control': 'max-age=60', vary: 'Accept' })
+    cache.set('key', cacheEntry(vary, 'json', new Headers({ accept: 'application/json' }))!)
+    expect(await lookupEntry(cache, 'key', new Headers({ accept: 'application/json' }))).toMatchObject({
+        entry: { body: 'json' },
+        state: 'fresh',
+    })
+    expect(await lookupEntry(cache, 'key', new Headers({ accept: 'text/plain' }))).toBeUndefined()
+    expect(await lookupEntry(cache, 'key', new Headers({ accept: 'application/json' }), 'reload')).toBeUndefined()
+
+    const age = response({ 'cache-control': 'max-age=60, stale-while-revalidate=60', age: '90' })
+    cache.set('age', cacheEntry(age, null, new Headers())!)
+    expect(await lookupEntry(cache, 'age', new Headers())).toMatchObject({ state: 'stale' })
+
+    const expires = response({ expires: new Date(Date.now() + 60_000).toUTCString() })
+    cache.set('expires', cacheEntry(expires, null, new Headers())!)
+    expect(await lookupEntry(cache, 'expires', new Headers())).toMatchObject({ state: 'fresh' })
+})
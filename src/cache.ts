@@ -0,0 +1,157 @@
+/**
+ * Cached response, with its parsed body.
+ */
+export type CacheEntry = {
+    status: number
+    statusText: string
+    headers: [string, string][]
+    body: unknown
+    /** Request header values of the header names listed by the response `Vary` header. */
+    vary: { [_ in string]: string | null }
+    /** Time the response was generated, in milliseconds since epoch, accounting for the `Age` header. */
+    time: number
+}
+
+/**
+ * Storage of cached responses, keyed by request method and URL.
+ */
+export type ClientCache = {
+    get: (key: string) => CacheEntry | undefined | Promise<CacheEntry | undefined>
+    set: (key: string, entry: CacheEntry) => void | Promise<void>
+    delete: (key: string) => void | Promise<void>
+}
+
+/**
+ * Create an in-memory {@linkcode ClientCache} evicting the least recently used entries.
+ *
+ * @param size Maximum number of entries.
+ */
+export const memoryCache = (size = 256): ClientCache => {
+    const entries = new Map<string, CacheEntry>()
+    return {
+        get: key => {
+            const entry = entries.get(key)
+            if (!entry) return
+            entries.delete(key)
+            entries.set(key, entry)
+            return entry
+        },
+        set: (key, entry) => {
+            entries.delete(key)
+            entries.set(key, entry)
+            if (entries.size > size) entries.delete(entries.keys().next().value!)
+        },
+        delete: key => void entries.delete(key),
+    }
+}
+
+/**
+ * Create a {@linkcode CacheEntry} from a response, or `undefined` if the response cannot be cached.
+ *
+ * Responses are cached if they are `200` and carry freshness information (`Cache-Control: max-age` or `Expires`)
+ * or validators (`ETag` or `Last-Modified`). `Cache-Control: no-store`, `Cache-Control: private` and `Vary: *`
+ * responses are not cached, neither are responses of requests with credentials (`Authorization` or `Cookie`) unless
+ * they are `Cache-Control: public`.
+ *
+ * @param response Response to cache.
+ * @param body Parsed response body.
+ * @param headers Request headers, used to match the `Vary` header.
+ * @param credentials Whether the request carries credentials not included in `headers`.
+ */
+export const cacheEntry = (
+    response: Response,
+    body: unknown,
+    headers: Headers,
+    credentials = false,
+): CacheEntry | undefined => {
+    const directives = cacheControl(response.headers)
+    const vary = (response.headers.get('vary') ?? '').split(',').map(name => name.trim().toLowerCase())
+    const validated = ['etag', 'last-modified', 'expires'].some(name => response.headers.has(name))
+    const authorized = credentials || headers.has('authorization') || headers.has('cookie')
+    if (response.status !== 200 || directives['no-store'] || directives['private'] || vary.includes('*')) return
+    if (authorized && !directives['public']) return
+    if (!validated && !('max-age' in directives)) return
+    return {
+        status: response.status,
+        statusText: response.statusText,
+        headers: [...response.headers],
+        body,
+        vary: Object.fromEntries(vary.filter(v => v).map(name => [name, headers.get(name)])),
+        time: Date.now() - +(response.headers.get('age') ?? 0) * 1000,
+    }
+}
+
+/**
+ * Update a {@linkcode CacheEntry} with the headers of a `304 Not Modified` response.
+ *
+ * @param entry Revalidated entry.
+ * @param response Not modified response.
+ */
+export const refreshEntry = (entry: CacheEntry, response: Response): CacheEntry => {
+    const headers = new Headers(entry.headers)
+    response.headers.forEach((value, name) => headers.set(name, value))
+    return { ...entry, headers: [...headers], time: Date.now() - +(response.headers.get('age') ?? 0) * 1000 }
+}
+
+/**
+ * Look up the {@linkcode CacheEntry} of a request and its state (see {@linkcode entryState}).
+ *
+ * The entry must match the request headers listed by its `Vary` header. The request cache `mode` is honored:
+ * `'reload'` ignores the entry, `'no-cache'` always revalidates it, and `'force-cache'` uses it even if expired.
+ *
+ * @param cache Cache storage.
+ * @param key Request key.
+ * @param headers Request headers.
+ * @param mode Request cache mode.
+ */
+export const lookupEntry = async (cache: ClientCache, key: string, headers: Headers, mode?: RequestCache) => {
+    const entry = mode === 'reload' ? undefined : await cache.get(key)
+    if (!entry || !Object.entries(entry.vary).every(([name, value]) => headers.get(name) === value)) return
+    const state = mode === 'force-cache' ? 'fresh' : mode === 'no-cache' ? 'expired' : entryState(entry)
+    return { entry, state }
+}
+
+/**
+ * Conditional request headers to revalidate a {@linkcode CacheEntry}, from its `ETag` and `Last-Modified` headers.
+ *
+ * @param entry Entry to revalidate.
+ */
+export const conditionalHeaders = (entry: CacheEntry) => {
+    const headers = new Headers(entry.headers)
+    return [
+        ['if-none-match', headers.get('etag')],
+        ['if-modified-since', headers.get('last-modified')],
+    ].filter((header): header is [string, string] => !!header[1])
+}
+
+/**
+ * Freshness state of a {@linkcode CacheEntry}:
+ * - `'fresh'`: within `max-age` (or `Expires`), it can be used without revalidation.
+ * - `'stale'`: within the `stale-while-revalidate` window, it can be used while revalidating in background.
+ * - `'expired'`: it must be revalidated before use.
+ *
+ * @param entry Entry to check.
+ */
+const entryState = (entry: CacheEntry): 'fresh' | 'stale' | 'expired' => {
+    const headers = new Headers(entry.headers)
+    const directives = cacheControl(headers)
+    const expires = Date.parse(headers.get('expires') ?? '') - (Date.parse(headers.get('date') ?? '') || entry.time)
+    const maxAge = directives['no-cache'] ? 0 : +(directives['max-age'] ?? (expires / 1000 || 0))
+    const staleWhileRevalidate = +(directives['stale-while-revalidate'] ?? 0)
+    const age = (Date.now() - entry.time) / 1000
+    return age < maxAge ? 'fresh' : age < maxAge + staleWhileRevalidate ? 'stale' : 'expired'
+}
+
+/**
+ * Parse `Cache-Control` directives, valueless directives are set to `true`.
+ *
+ * @param headers Headers with `Cache-Control`.
+ */
+const cacheControl = (headers: Headers) =>
+    Object.fromEntries(
+        (headers.get('cache-control') ?? '')
+            .split(',')
+            .map(directive => directive.trim().toLowerCase().split('='))
+            .filter(([name]) => name)
+            .map(([name, value]) => [name, value?.replace(/"/g, '') ?? true]),
+    ) as { [_ in string]?: string | true }
@@ -0,0 +1,79 @@
+/**
+ * State of a circuit:
+ * - `'closed'`: requests are allowed.
+ * - `'open'`: requests fail fast until the cool-down ends.
+ * - `'half-open'`: the cool-down ended, a single probe request is allowed to decide whether the circuit closes.
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+/**
+ * Circuit breaker shared by clients, see {@linkcode circuitBreaker}.
+ */
+export type CircuitBreaker = {
+    /**
+     * Circuit key of a request URL, the host for `per: 'host'` breakers, or an empty string.
+     *
+     * @param url Request URL.
+     */
+    key: (url: URL) => string
+
+    /**
+     * Current state of a circuit, useful for health checks.
+     *
+     * @param key Circuit key, see {@linkcode CircuitBreaker.key}.
+     */
+    state: (key?: string) => CircuitState
+
+    /**
+     * Check whether a request may be sent, half-open circuits allow a single probe request per cool-down.
+     *
+     * @param key Circuit key.
+     */
+    allow: (key: string) => boolean
+
+    /**
+     * Record the outcome of a request, failures open the circuit after reaching the threshold and successes close it.
+     *
+     * @param key Circuit key.
+     * @param success Whether the request succeeded.
+     */
+    record: (key: string, success: boolean) => void
+}
+
+/**
+ * Create a {@linkcode CircuitBreaker}.
+ *
+ * The circuit opens after `threshold` consecutive failures and fails requests fast for `cooldown` milliseconds, it
+ * then half-opens and allows a probe request, closing on success or opening again on failure.
+ *
+ * @param options.threshold Consecutive failures to open the circuit, default `5`.
+ * @param options.cooldown Time in milliseconds before an open circuit half-opens, default `30000`.
+ * @param options.per Keep a single circuit for the `'client'` or one circuit per `'host'`, default `'client'`.
+ */
+export const circuitBreaker = ({
+    threshold = 5,
+    cooldown = 30000,
+    per = 'client',
+}: { threshold?: number; cooldown?: number; per?: 'client' | 'host' } = {}): CircuitBreaker => {
+    const circuits = new Map<string, { failures: number; openedAt: number; probing: boolean }>()
+    const circuit = (key: string) => circuits.get(key) ?? { failures: 0, openedAt: 0, probing: false }
+    const cooling = (key: string) => Date.now() - circuit(key).openedAt < cooldown
+
+    return {
+        key: url => (per === 'host' ? url.host : ''),
+        state: (key = '') =>
+            circuit(key).failures < threshold ? 'closed' : circuit(key).probing || !cooling(key) ? 'half-open' : 'open',
+        allow: key => {
+            if (circuit(key).failures < threshold) return true
+            if (cooling(key)) return false
+            circuits.set(key, { ...circuit(key), openedAt: Date.now(), probing: true })
+            return true
+        },
+        record: (key, success) => {
+            if (success) return void circuits.delete(key)
+            const failures = circuit(key).failures + 1
+            const openedAt = failures >= threshold ? Date.now() : 0
+            circuits.set(key, { failures, openedAt, probing: false })
+        },
+    }
+}
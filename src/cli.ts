@@ -0,0 +1,93 @@
+#!/usr/bin/env node
+import { readFileSync, watch, writeFileSync } from 'node:fs'
+import { basename, dirname, join, resolve } from 'node:path'
+import { fileURLToPath, pathToFileURL } from 'node:url'
+import { parseArgs } from 'node:util'
+import { bundleDocument, parseDocument, specModule, specName, stripKeys } from './codegen'
+
+const usage = `Usage: fetch-tools <document> [options]
+
+Convert a local OpenAPI JSON or YAML document into a TypeScript module exporting its type.
+External $refs to local files are bundled into the document components.
+
+Options:
+  -o, --output <file>  Output module, default: the document path with a .ts extension
+  -n, --name <name>    Exported type name, default: from the document file name, such as MyApiSpec
+  -c, --const          Also export the document as a constant
+  -s, --strip <keys>   Comma separated keywords to remove, such as description,example,examples
+  -w, --watch          Regenerate the module when the document or its referenced files change
+  -h, --help           Show this help
+`
+
+/**
+ * Generate the module of the document, reporting errors without exiting in watch mode.
+ *
+ * @param options Command line options.
+ * @param files Collects the paths of the document and its referenced files.
+ */
+const generate = ({ input, output, name, value, strip }: GenerateOptions, files: Set<string>) => {
+    files.clear()
+    files.add(input)
+    try {
+        const load = (url: URL) => {
+            files.add(fileURLToPath(url))
+            return parseDocument(readFileSync(url, 'utf8'), url.pathname)
+        }
+        const document = bundleDocument(parseDocument(readFileSync(input, 'utf8'), input), pathToFileURL(input), load)
+        const stripped = strip.length ? stripKeys(document, strip) : document
+        writeFileSync(output, specModule(stripped, { name, source: basename(input), value }))
+        console.log(`${basename(input)} -> ${output}`)
+        return true
+    } catch (error) {
+        console.error(`${basename(input)}: ${error instanceof Error ? error.message : error}`)
+        return false
+    }
+}
+
+type GenerateOptions = { input: string; output: string; name: string; value: boolean; strip: string[] }
+
+const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+        output: { type: 'string', short: 'o' },
+        name: { type: 'string', short: 'n' },
+        const: { type: 'boolean', short: 'c' },
+        strip: { type: 'string', short: 's' },
+        watch: { type: 'boolean', short: 'w' },
+        help: { type: 'boolean', short: 'h' },
+    },
+})
+
+if (values.help || positionals.length !== 1) {
+    console.log(usage)
+    process.exit(values.help ? 0 : 1)
+}
+
+const input = resolve(positionals[0])
+const options: GenerateOptions = {
+    input,
+    output: resolve(values.output ?? input.replace(/(?:\.[^./\\]*)?$/, '.ts')),
+    name: values.name ?? specName(input),
+    value: !!values.const,
+    strip: values.strip?.split(',').map(key => key.trim()) ?? [],
+}
+
+const files = new Set<string>()
+if (!generate(options, files) && !values.watch) process.exit(1)
+if (values.watch) {
+    const watched = new Set<string>()
+    let handle: ReturnType<typeof setTimeout> | undefined
+    const watchFiles = () => {
+        for (const directory of new Set([...files].map(file => dirname(file)))) {
+            if (watched.has(directory)) continue
+            watched.add(directory)
+            watch(directory, (_, file) => {
+                if (!file || !files.has(join(directory, file))) return
+                clearTimeout(handle)
+                handle = setTimeout(() => (generate(options, files), watchFiles()), 50)
+            })
+        }
+    }
+    watchFiles()
+    console.log(`Watching ${basename(input)}`)
+}
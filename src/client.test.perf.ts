@@ -0,0 +1,98 @@
+/**
+ * Compile-time performance fixture for large specs.
+ *
+ * This file is checked by `tsc` like `client.test.type.ts`, and `client.test.ts` checks it alone with
+ * `--extendedDiagnostics` to keep its type instantiations under a budget. The spec is generated with mapped types:
+ * 100 paths whose schemas use discriminated `oneOf`s, `allOf`s, tuples, `patternProperties`, and `readOnly` and
+ * `writeOnly` properties.
+ */
+import { client } from './client'
+import { FromOpenApiSpec } from './types/openapi'
+import { Digit } from './types/util'
+
+type Id = `${Digit}${Digit}`
+
+type Schema<N extends Id> = { $ref: `#/components/schemas/${N}` }
+
+type LargeSpec = {
+    openapi: '3.1.0'
+    paths: {
+        [N in Id as `/resources${N}/{id}`]: {
+            parameters: [{ name: 'id'; in: 'path'; required: true; schema: { type: 'integer' } }]
+            get: {
+                parameters: [{ name: 'expand'; in: 'query'; schema: { type: 'array'; items: { type: 'string' } } }]
+                responses: {
+                    '200': { content: { 'application/json': { schema: Schema<N> } } }
+                    '4XX': { content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } } }
+                }
+            }
+            put: {
+                requestBody: { required: true; content: { 'application/json': { schema: Schema<N> } } }
+                responses: { '200': { content: { 'application/json': { schema: Schema<N> } } } }
+            }
+        }
+    }
+    components: {
+        schemas: {
+            [N in Id]: {
+                oneOf: [{ $ref: `#/components/schemas/Cat${N}` }, { $ref: `#/components/schemas/Dog${N}` }]
+                discriminator: { propertyName: 'kind' }
+            }
+        } & {
+            [N in Id as `Cat${N}`]: {
+                allOf: [
+                    { $ref: '#/components/schemas/Base' },
+                    {
+                        type: 'object'
+                        properties: { kind: { type: 'string' }; lives: { type: 'integer' } }
+                        required: ['kind', 'lives']
+                    },
+                ]
+            }
+        } & {
+            [N in Id as `Dog${N}`]: {
+                allOf: [
+                    { $ref: '#/components/schemas/Base' },
+                    {
+                        type: 'object'
+                        properties: {
+                            kind: { type: 'string' }
+                            position: { type: 'array'; prefixItems: [{ type: 'number' }, { type: 'number' }] }
+                        }
+                        required: ['kind']
+                    },
+                ]
+            }
+        } & {
+            Base: {
+                type: 'object'
+                properties: {
+                    id: { type: 'integer'; readOnly: true }
+                    secret: { type: 'string'; writeOnly: true }
+                    labels: { type: 'object'; patternProperties: { '^x-': { type: 'string' } } }
+                    tags: { type: ['array', 'null']; items: { type: 'string' } }
+                }
+                required: ['id']
+            }
+            Error: { type: 'object'; properties: { message: { type: 'string' } }; required: ['message'] }
+        }
+    }
+}
+
+type Spec = FromOpenApiSpec<LargeSpec>
+const api = client<Spec>()
+
+// Every path is resolved, as auto-completion of the client does.
+type Bodies = Spec[keyof Spec]['get']['responses'][200]
+const cat: Bodies = { kind: 'Cat00', id: 1, lives: 9 }
+
+async function requests() {
+    const { body } = await api['/resources42/{id}'].get({ path: { id: 1 }, query: { expand: ['tags'] } })
+    if (body.kind === 'Dog42') body.position?.[1].toFixed()
+    await api['/resources07/{id}'].put({ path: { id: 7 }, body: { kind: 'Cat07', lives: 9, secret: '' } })
+    const error = await api['/resources99/{id}'].get({ path: { id: 99 }, status: [4] })
+    return error.body.message
+}
+
+// Reference values so nothing is flagged as unused.
+export const _perfTest = { cat, requests }
@@ -2,7 +2,14 @@ import { afterAll, afterEach, beforeAll, expect, mock, test } from 'bun:test'
 import { default as FormData } from 'form-data'
 import { http, HttpResponse } from 'msw'
 import { setupServer } from 'msw/node'
-import { client } from './client'
+import { openApiAuth } from './auth'
+import { memoryCache } from './cache'
+import { circuitBreaker } from './circuit'
+import { client, serverUrls } from './client'
+import { openApiValidator } from './openapi'
+import { ServerSentEvent } from './stream'
+import { ClientError, ClientRequest, Middleware } from './types/client'
+import { StandardSchema } from './types/standard'
 
 const url = 'http://api.example.com'
 const msw = setupServer()
@@ -35,6 +42,28 @@ test('request URL resolution', async () => {
     expect((await apiB['/world'].get({})).body).toEqual({ data: 'hello world' })
 })
 
+test('parameter styles', async () => {
+    msw.use(
+        http.get(`${url}/*`, ({ request }) =>
+            HttpResponse.json({ url: decodeURIComponent(request.url), ids: request.headers.get('x-ids') }),
+        ),
+    )
+    const api = client({
+        url,
+        style: { path: { style: 'matrix' }, query: { parameters: { f: { style: 'deepObject' } } } },
+    })
+    const { body } = await api['/users/{id}'].get({
+        path: { id: [1, 2] },
+        query: { tags: ['a', 'b'], f: { role: 'admin', age: { gt: 18 } } },
+        header: { 'x-ids': [1, 2] as unknown as string },
+        style: { path: { explode: true }, query: { parameters: { tags: { style: 'pipeDelimited', explode: false } } } },
+    })
+    expect(body).toEqual({ url: `${url}/users/;id=1;id=2?tags=a|b&f[role]=admin&f[age][gt]=18`, ids: '1,2' })
+
+    const serialized = await api['/users'].get({ query: { a: 1, b: undefined }, querySerializer: JSON.stringify })
+    expect(serialized.body).toEqual({ url: `${url}/users?{"a":1}`, ids: null })
+})
+
 test('request body serialize', async () => {
     const spy = mock((..._: unknown[]) => {})
     msw.use(
@@ -47,6 +76,40 @@ test('request body serialize', async () => {
     expect(spy).toHaveBeenCalledWith('application/json', '{}')
 })
 
+test('media types', async () => {
+    msw.use(
+        http.put(`${url}/avatar`, async ({ request }) => {
+            const type = request.headers.get('content-type') ?? ''
+            const body = type.startsWith('multipart/')
+                ? [...(await request.formData())].map(([key, value]) =>
+                      typeof value === 'string' ? [key, value] : key,
+                  )
+                : await request.text()
+            return HttpResponse.json({ accept: request.headers.get('accept'), type: type.split(';')[0], body })
+        }),
+    )
+    const api = client({ url })
+    const multipart = await api['/avatar'].put({
+        contentType: 'multipart/form-data',
+        accept: 'application/json',
+        body: { file: new Blob(['png']), name: 'avatar', crop: { x: 1 } },
+    })
+    expect(multipart.body).toEqual({
+        accept: 'application/json',
+        type: 'multipart/form-data',
+        body: ['file', ['name', 'avatar'], ['crop', '{"x":1}']],
+    })
+    const text = await api['/avatar'].put({ contentType: 'text/plain', body: 'hello' })
+    expect(text.body).toEqual({ accept: null, type: 'text/plain', body: 'hello' })
+    const object = await api['/avatar'].put({ contentType: 'text/plain', body: { x: 1 } })
+    expect(object.body).toMatchObject({ type: 'text/plain', body: '{"x":1}' })
+
+    const content = { 'application/json': {}, 'image/png': {} }
+    const document = { paths: { '/avatar': { put: { responses: { '200': { content } } } } } }
+    const typed = client({ url, openapi: openApiValidator(document) })
+    expect((await typed['/avatar'].put()).body).toMatchObject({ accept: 'application/json, image/png' })
+})
+
 test('response body parse', async () => {
     const params = new URLSearchParams()
     const paramsInit = { headers: { 'content-type': 'application/x-www-form-urlencoded' } }
@@ -74,6 +137,633 @@ test('response body parse', async () => {
     expect(stream).toBeInstanceOf(ReadableStream)
 })
 
+test('custom parsers and serializers', async () => {
+    const ndjsonInit = { headers: { 'content-type': 'application/x-ndjson' } }
+    msw.use(http.get(`${url}/ndjson`, () => new HttpResponse('{"a":1}\n{"a":2}\n', ndjsonInit)))
+    msw.use(http.get(`${url}/html`, () => HttpResponse.html('<p></p>')))
+    msw.use(http.get(`${url}/json`, () => HttpResponse.json({ at: new Date(0) })))
+
+    const ndjson = async (response: Response) =>
+        (await response.text())
+            .split('\n')
+            .filter(line => line)
+            .map(line => JSON.parse(line))
+    const api = client({ url, parsers: { 'application/x-ndjson': ndjson, 'text/*': response => response.text() } })
+    expect((await api['ndjson'].get()).body).toEqual([{ a: 1 }, { a: 2 }])
+    expect((await api['html'].get()).body).toBe('<p></p>')
+    const dates = async (response: Response) =>
+        JSON.parse(await response.text(), (key, value) => (key === 'at' ? new Date(value) : value))
+    expect((await api['json'].get({ parsers: { 'application/json': dates } })).body).toEqual({ at: new Date(0) })
+
+    const spy = mock((..._: unknown[]) => {})
+    msw.use(
+        http.post(url, async ({ request }) => {
+            spy(request.headers.get('content-type'), await request.text())
+            return new HttpResponse()
+        }),
+    )
+    const form = { name: 'John', tags: ['a', 'b'], empty: undefined }
+    await api[''].post({ body: form, header: { 'content-type': 'application/x-www-form-urlencoded' } })
+    expect(spy).toHaveBeenLastCalledWith('application/x-www-form-urlencoded', 'name=John&tags=a&tags=b')
+    await api[''].post({ body: form, header: { 'content-type': 'multipart/form-data' } })
+    expect(spy.mock.lastCall?.[0]).toStartWith('multipart/form-data; boundary=')
+    expect(spy.mock.lastCall?.[1]).toContain('name="tags"\r\n\r\nb')
+    await api[''].post({ body: [1], header: { 'content-type': 'text/csv' }, serializers: { 'text/csv': String } })
+    expect(spy).toHaveBeenLastCalledWith('text/csv', '1')
+})
+
+test('streaming responses', async () => {
+    const encode = (text: string) => new TextEncoder().encode(text)
+    const sseInit = { headers: { 'content-type': 'text/event-stream' } }
+    const ids: (string | null)[] = []
+    msw.use(
+        http.get(`${url}/sse`, ({ request }) => {
+            ids.push(request.headers.get('last-event-id'))
+            const id = +(request.headers.get('last-event-id') ?? 0) + 1
+            if (id > 3) return new HttpResponse(null, { status: 204 })
+            const stream = new ReadableStream({
+                start: controller => controller.enqueue(encode(`id: ${id}\nretry: 0\ndata: ${id}\n\n`)),
+                pull: async controller => {
+                    await new Promise(resolve => setTimeout(resolve, 10))
+                    if (id < 3) controller.error(new Error('disconnected'))
+                    else controller.close()
+                },
+            })
+            return new HttpResponse(stream, sseInit)
+        }),
+    )
+    msw.use(
+        http.get(`${url}/sse-close`, ({ request }) => {
+            const id = +(request.headers.get('last-event-id') ?? 0) + 1
+            if (id > 3) return new HttpResponse(null, { status: 204 })
+            return new HttpResponse(`id: ${id}\nretry: 0\ndata: ${id}\n\n`, sseInit)
+        }),
+    )
+    msw.use(
+        http.get(
+            `${url}/ndjson`,
+            () => new HttpResponse('{"a":1}\n{"a":2}\n', { headers: { 'content-type': 'application/x-ndjson' } }),
+        ),
+    )
+
+    const api = client({ url })
+    const events = (await api['sse'].get<AsyncIterable<ServerSentEvent>>({ retry: 2 })).body
+    expect((await Array.fromAsync(events)).map(({ data }) => data)).toEqual(['1', '2', '3'])
+    expect(ids).toEqual([null, '1', '2', '3'])
+    const failing = (await api['sse'].get<AsyncIterable<ServerSentEvent>>({ retry: 0 })).body
+    await expect(Array.fromAsync(failing)).rejects.toThrow()
+    const closing = (await api['sse-close'].get<AsyncIterable<ServerSentEvent>>({ retry: 1 })).body
+    expect((await Array.fromAsync(closing)).map(({ data }) => data)).toEqual(['1', '2', '3'])
+    expect(await Array.fromAsync((await api['ndjson'].get<AsyncIterable<unknown>>()).body)).toEqual([
+        { a: 1 },
+        { a: 2 },
+    ])
+    expect(await Array.fromAsync((await api['ndjson'].get<AsyncIterable<string>>({ parse: 'lines' })).body)).toEqual([
+        '{"a":1}',
+        '{"a":2}',
+    ])
+})
+
+test('problem details', async () => {
+    const problem = { type: 'https://example.com/credit', title: 'Out of credit', detail: 'Balance is 30', balance: 30 }
+    const problemInit = { status: 403, headers: { 'content-type': 'application/problem+json' } }
+    msw.use(http.get(`${url}/problem`, () => HttpResponse.json(problem, problemInit)))
+    msw.use(
+        http.get(`${url}/vnd`, () =>
+            HttpResponse.json([], { headers: { 'content-type': 'application/vnd.api+json' } }),
+        ),
+    )
+    msw.use(
+        http.get(`${url}/xml`, () => HttpResponse.xml('<a/>', { headers: { 'content-type': 'application/atom+xml' } })),
+    )
+
+    const api = client({ url })
+    expect((await api['vnd'].get()).body).toEqual([])
+    expect((await api['xml'].get()).body).toBe('<a/>')
+    const error: ClientError<403, { balance: number }> = await api['problem'].get().then(
+        () => expect.unreachable(),
+        e => e,
+    )
+    expect(error.message).toBe('Out of credit: Balance is 30')
+    expect(error.problem).toEqual(problem)
+    expect(error.problem?.balance).toBe(30)
+})
+
+test('progress', async () => {
+    const upload = mock((..._: unknown[]) => {})
+    const download = mock((..._: unknown[]) => {})
+    msw.use(http.post(url, async ({ request }) => HttpResponse.text(await request.text())))
+
+    const api = client({ url, onUploadProgress: upload, onDownloadProgress: download })
+    expect((await api[''].post({ body: 'a'.repeat(10) })).body).toBe('"aaaaaaaaaa"')
+    expect(upload.mock.calls).toEqual([[{ loaded: 0, total: 12 }], [{ loaded: 12, total: 12 }]])
+    expect(download).toHaveBeenLastCalledWith({ loaded: 12, total: 12 })
+    const stream = new ReadableStream({
+        start: controller => (controller.enqueue(new Uint8Array(3)), controller.close()),
+    })
+    await api[''].post({ body: stream })
+    expect(upload).toHaveBeenLastCalledWith({ loaded: 3, total: undefined })
+})
+
+test('http cache', async () => {
+    const hits: (string | null)[] = []
+    const cacheControl = { current: 'max-age=60' }
+    msw.use(
+        http.get(`${url}/:path`, ({ request }) => {
+            hits.push(request.headers.get('if-none-match'))
+            const headers = { etag: '"v1"', 'cache-control': cacheControl.current }
+            if (request.headers.get('if-none-match') === '"v1"') return new HttpResponse(null, { status: 304, headers })
+            return HttpResponse.json({ data: 'cached' }, { headers })
+        }),
+    )
+    const api = client({ url, httpCache: memoryCache() })
+    expect((await api['fresh'].get()).body).toEqual({ data: 'cached' })
+    expect((await api['fresh'].get()).body).toEqual({ data: 'cached' })
+    expect(hits).toEqual([null])
+    await api['fresh'].get({ cache: 'no-cache' })
+    expect(hits).toEqual([null, '"v1"'])
+
+    hits.length = 0
+    cacheControl.current = 'no-cache'
+    await api['expired'].get()
+    const revalidated = await api['expired'].get()
+    expect(revalidated).toMatchObject({ status: 200, body: { data: 'cached' } })
+    expect(hits).toEqual([null, '"v1"'])
+
+    hits.length = 0
+    cacheControl.current = 'max-age=0, stale-while-revalidate=60'
+    await api['stale'].get()
+    const controller = new AbortController()
+    expect((await api['stale'].get({ signal: controller.signal })).body).toEqual({ data: 'cached' })
+    controller.abort()
+    await new Promise(resolve => setTimeout(resolve, 10))
+    expect(hits).toEqual([null, '"v1"'])
+})
+
+test('http cache credentials', async () => {
+    const users: string[] = []
+    const cacheControl = { current: 'public, max-age=60' }
+    msw.use(
+        http.get(`${url}/me`, ({ request }) => {
+            users.push(request.headers.get('authorization')!)
+            const headers = { 'cache-control': cacheControl.current }
+            return HttpResponse.json({ user: request.headers.get('authorization') }, { headers })
+        }),
+    )
+    const intercepted = mock((..._: unknown[]) => {})
+    const alice = client({ url, httpCache: true, header: { authorization: 'alice' }, interceptResponse: intercepted })
+    const bob = client({ url, httpCache: true, header: { authorization: 'bob' } })
+    expect((await alice['me'].get()).body).toEqual({ user: 'alice' })
+    expect((await bob['me'].get()).body).toEqual({ user: 'bob' })
+    expect((await alice['me'].get()).body).toEqual({ user: 'alice' })
+    expect(users).toEqual(['alice', 'bob'])
+    expect(intercepted).toHaveBeenCalledTimes(2)
+
+    cacheControl.current = 'max-age=60'
+    const carol = client({ url, httpCache: true, header: { authorization: 'carol' } })
+    await carol['me'].get()
+    await carol['me'].get()
+    expect(users).toEqual(['alice', 'bob', 'carol', 'carol'])
+
+    let hits = 0
+    msw.use(
+        http.get(`${url}/:path`, () => (hits++, HttpResponse.json({}, { headers: { 'cache-control': 'max-age=60' } }))),
+    )
+    const document = {
+        security: [{ key: [] }],
+        paths: { '/open': { get: { security: [] } } },
+        components: { securitySchemes: { key: { type: 'apiKey', in: 'header', name: 'x-key' } } },
+    } as const
+    const keyed = client({ url, httpCache: true, auth: openApiAuth(document, { key: 'secret' }) })
+    for (const path of ['/open', '/open', '/keyed', '/keyed']) await keyed[path].get()
+    expect(hits).toBe(3)
+})
+
+test('dedupe', async () => {
+    let hits = 0
+    msw.use(
+        http.get(`${url}/:path`, async () => {
+            hits++
+            await new Promise(resolve => setTimeout(resolve, 20))
+            return HttpResponse.json({ data: 'shared' })
+        }),
+    )
+    const api = client({ url, dedupe: true })
+    const [a, b] = await Promise.all([api['users'].get({ query: { q: 1 } }), api['users'].get({ query: { q: 1 } })])
+    expect(a.body).toEqual({ data: 'shared' })
+    expect(b.body).toBe(a.body)
+    expect(hits).toBe(1)
+    await Promise.all([api['users'].get({ query: { q: 1 } }), api['users'].get({ query: { q: 2 } })])
+    expect(hits).toBe(3)
+
+    const controller = new AbortController()
+    const aborted = api['abort'].get({ signal: controller.signal })
+    const waiting = api['abort'].get()
+    controller.abort()
+    await expect(aborted).rejects.toBeInstanceOf(ClientError)
+    await expect(waiting).resolves.toMatchObject({ body: { data: 'shared' } })
+    expect(hits).toBe(4)
+
+    await Promise.all([api['users'].get({ dedupe: () => undefined }), api['users'].get({ dedupe: () => undefined })])
+    expect(hits).toBe(6)
+    await Promise.all([api['users'].get(), api['users'].get({ onDownloadProgress: () => {} })])
+    expect(hits).toBe(8)
+})
+
+test('dedupe credentials', async () => {
+    msw.use(
+        http.get(`${url}/me`, async ({ request }) => {
+            await new Promise(resolve => setTimeout(resolve, 20))
+            return HttpResponse.json({ user: request.headers.get('authorization') })
+        }),
+    )
+    const as = (user: string) =>
+        client({
+            url,
+            dedupe: true,
+            interceptRequest: request => (request.headers.set('authorization', user), request),
+        })
+    const [alice, bob] = await Promise.all([as('alice')['me'].get(), as('bob')['me'].get()])
+    expect(alice.body).toEqual({ user: 'alice' })
+    expect(bob.body).toEqual({ user: 'bob' })
+})
+
+test('concurrency and rate limit', async () => {
+    let active = 0
+    let maxActive = 0
+    msw.use(
+        http.get(`${url}/:path`, async () => {
+            maxActive = Math.max(maxActive, ++active)
+            await new Promise(resolve => setTimeout(resolve, 20))
+            active--
+            return new HttpResponse()
+        }),
+    )
+    const api = client({ url, concurrency: 2 })
+    await Promise.all([api['a'].get(), api['b'].get(), api['c'].get()])
+    expect(maxActive).toBe(2)
+
+    const controller = new AbortController()
+    const queued = Promise.all([api['a'].get(), api['b'].get(), api['c'].get({ signal: controller.signal })])
+    controller.abort()
+    await expect(queued).rejects.toBeInstanceOf(ClientError)
+    await expect(api['a'].get({ timeout: 10 })).rejects.toMatchObject({ error: { name: 'TimeoutError' } })
+
+    await new Promise(resolve => setTimeout(resolve, 30)) // let aborted requests finish
+    maxActive = 0
+    const serial = client({ url, concurrency: 1 })
+    const rateLimit = { limit: 10, interval: 100 }
+    await Promise.all([serial['a'].get({ rateLimit }), serial['b'].get({ concurrency: 5 }), serial['c'].get()])
+    expect(maxActive).toBe(1)
+
+    const limited = client({ url, rateLimit: { limit: 2, interval: 100, per: 'path' } })
+    const start = Date.now()
+    await Promise.all([limited['a'].get(), limited['b'].get(), limited['a'].get()])
+    expect(Date.now() - start).toBeLessThan(100)
+    await Promise.all([limited['a'].get()])
+    expect(Date.now() - start).toBeGreaterThanOrEqual(50)
+})
+
+test('circuit breaker', async () => {
+    let status = 500
+    let calls = 0
+    msw.use(http.get(url, () => (calls++, new HttpResponse('', { status }))))
+    const circuit = circuitBreaker({ threshold: 2, cooldown: 50 })
+    const api = client({ url, circuit })
+    await expect(api[''].get({ retry: 3, retryDelay: [0] })).rejects.toMatchObject({ error: 'circuit', attempts: 3 })
+    expect(calls).toBe(2)
+    expect(circuit.state()).toBe('open')
+    await expect(api[''].get()).rejects.toMatchObject({ error: 'circuit' })
+    expect(calls).toBe(2)
+
+    await new Promise(resolve => setTimeout(resolve, 60))
+    expect(circuit.state()).toBe('half-open')
+    status = 200
+    await expect(api[''].get()).resolves.toBeDefined()
+    expect(circuit.state()).toBe('closed')
+    status = 404
+    await expect(api[''].get()).rejects.toMatchObject({ error: 'status' })
+    await expect(api[''].get()).rejects.toMatchObject({ error: 'status' })
+    expect(circuit.state()).toBe('closed')
+})
+
+test('multiple servers', async () => {
+    const hits: string[] = []
+    msw.use(
+        http.get('http://a.example.com/users', () => (hits.push('a'), HttpResponse.error())),
+        http.get('http://b.example.com/users', () => (hits.push('b'), new HttpResponse('', { status: 503 }))),
+        http.get('http://c.example.com/users', async ({ request }) => {
+            hits.push('c')
+            await new Promise(resolve => setTimeout(resolve, request.headers.get('x-wait') ? 50 : 0))
+            return HttpResponse.json(request.url)
+        }),
+        http.get('http://d.example.com/users', ({ request }) => (hits.push('d'), HttpResponse.json(request.url))),
+    )
+    const servers = serverUrls({
+        servers: [{ url: 'http://{name}.example.com', variables: { name: { default: 'a' } } }],
+    })
+    expect(servers).toEqual(['http://a.example.com'])
+    const api = client({ url: ['http://a.example.com', 'http://b.example.com', 'http://c.example.com'] })
+    expect((await api['/users'].get({ query: { q: 1 } })).body).toBe('http://c.example.com/users?q=1')
+    expect(hits).toEqual(['a', 'b', 'c'])
+
+    hits.length = 0
+    await expect(
+        client({ url: ['http://a.example.com', 'http://b.example.com'] })['/users'].get(),
+    ).rejects.toMatchObject({
+        status: 503,
+    })
+    expect(hits).toEqual(['a', 'b'])
+
+    hits.length = 0
+    const balanced = client({ url: ['http://c.example.com', 'http://b.example.com'], urlStrategy: 'round-robin' })
+    await balanced['/users'].get()
+    await balanced['/users'].get()
+    await balanced['/users'].get()
+    expect(hits).toEqual(['c', 'b', 'c', 'c'])
+
+    hits.length = 0
+    const hedged = client({ url: ['http://c.example.com', 'http://d.example.com'], urlStrategy: { hedge: 10 } })
+    const start = Date.now()
+    const { body } = await hedged['/users'].get({ header: { 'x-wait': '1' } })
+    expect(body).toBe('http://d.example.com/users')
+    expect(Date.now() - start).toBeLessThan(50)
+    expect(hits).toEqual(['c', 'd'])
+})
+
+test('pagination', async () => {
+    const data = Array.from({ length: 5 }, (_, i) => i)
+    msw.use(
+        http.get(`${url}/link`, ({ request }) => {
+            const page = +(new URL(request.url).searchParams.get('page') ?? 0)
+            const link = page < 2 ? `<${url}/link?page=${page + 1}>; rel="next", <${url}/link>; rel="first"` : ''
+            return HttpResponse.json(data.slice(page * 2, page * 2 + 2), { headers: { link } })
+        }),
+        http.get(`${url}/cursor`, ({ request }) => {
+            const cursor = +(new URL(request.url).searchParams.get('cursor') ?? 0)
+            return HttpResponse.json({
+                items: data.slice(cursor, cursor + 2),
+                next: cursor + 2 < 5 ? cursor + 2 : null,
+            })
+        }),
+        http.get(`${url}/offset`, ({ request }) => {
+            const params = new URL(request.url).searchParams
+            const page = +(params.get('page') ?? 0)
+            const offset = +(params.get('offset') ?? (page - 1) * 2)
+            return HttpResponse.json(data.slice(offset, offset + 2))
+        }),
+        http.get(`${url}/object`, ({ request }) => {
+            const page = +(new URL(request.url).searchParams.get('page') ?? 1)
+            return HttpResponse.json({ data: data.slice((page - 1) * 2, page * 2) })
+        }),
+    )
+    const api = client({ url })
+    const collect = async <T>(iterable: AsyncIterable<T>) => {
+        const values: T[] = []
+        for await (const value of iterable) values.push(value)
+        return values
+    }
+    expect(await collect(api['/link'].get.paginate({ query: { size: 2 } }, { strategy: 'link' }))).toEqual([
+        [0, 1],
+        [2, 3],
+        [4],
+    ])
+    type CursorPage = { items: number[]; next: number | null }
+    const cursor = api['/cursor'].get.paginate(
+        {},
+        { strategy: 'cursor', param: 'cursor', cursor: page => (page as CursorPage).next },
+    )
+    expect(await collect(cursor)).toEqual([
+        { items: [0, 1], next: 2 },
+        { items: [2, 3], next: 4 },
+        { items: [4], next: null },
+    ])
+    const items = api['/cursor'].get.paginate(
+        {},
+        {
+            strategy: 'cursor',
+            param: 'cursor',
+            cursor: page => (page as CursorPage).next,
+            items: page => (page as CursorPage).items,
+        },
+    )
+    expect(await collect(items)).toEqual(data)
+    expect(await collect(api['/offset'].get.paginate({}, { strategy: 'page', param: 'page' }))).toHaveLength(3)
+    expect(await collect(api['/offset'].get.paginate({}, { strategy: 'offset', param: 'offset', limit: 2 }))).toEqual([
+        [0, 1],
+        [2, 3],
+    ])
+    const objects = api['/object'].get.paginate({}, { strategy: 'page', param: 'page' })
+    expect(await collect(objects)).toEqual([{ data: [0, 1] }])
+    const objectItems = api['/object'].get.paginate(
+        {},
+        { strategy: 'page', param: 'page', items: page => (page as { data: number[] }).data },
+    )
+    expect(await collect(objectItems)).toEqual(data)
+})
+
+test('validation', async () => {
+    msw.use(
+        http.post(url, async ({ request }) => HttpResponse.json(await request.json())),
+        http.get(url, () => HttpResponse.json({ id: '1' })),
+    )
+    const user: StandardSchema<unknown, { id: number }> = {
+        '~standard': {
+            version: 1,
+            vendor: 'test',
+            validate: value => {
+                const id = Number((value as { id: unknown }).id)
+                return isNaN(id) ? { issues: [{ message: 'invalid id', path: ['id'] }] } : { value: { id } }
+            },
+        },
+    }
+    const api = client({ url })
+    const { body } = await api[''].get({ validate: user })
+    expect(body).toEqual({ id: 1 })
+    expect((await api[''].post({ body: { id: '2' }, validate: { request: user } })).body).toEqual({ id: 2 })
+    await expect(api[''].post({ body: { id: 'x' }, validate: { request: user } })).rejects.toMatchObject({
+        error: 'validation',
+        attempts: 0,
+        message: 'invalid id',
+    })
+    await expect(api[''].post({ body: { id: 'x' }, validate: user })).rejects.toMatchObject({
+        error: 'validation',
+        status: 200,
+        body: { id: 'x' },
+        issues: [{ message: 'invalid id', path: ['id'] }],
+    })
+})
+
+test('openapi validation', async () => {
+    msw.use(http.get(`${url}/users/:id`, ({ params }) => HttpResponse.json({ id: params.id })))
+    const schema = { type: 'object', properties: { id: { type: 'integer' } } }
+    const openapi = openApiValidator({
+        paths: {
+            '/users/{id}': {
+                get: {
+                    parameters: [{ name: 'id', in: 'path', schema: { type: 'integer' } }],
+                    responses: { '200': { content: { 'application/json': { schema } } } },
+                },
+            },
+        },
+    })
+    const api = client({ url, openapi })
+    await expect(api['/users/{id}'].get({ path: { id: 'a' } })).rejects.toMatchObject({
+        error: 'validation',
+        message: '/path/id must be integer',
+    })
+    await expect(api['/users/{id}'].get({ path: { id: 1 } })).rejects.toMatchObject({
+        error: 'validation',
+        status: 200,
+        issues: [{ message: '/body/id must be integer', path: ['body', 'id'] }],
+    })
+})
+
+test('response headers', async () => {
+    const headers = { 'x-total-count': '42', 'x-tags': 'a, b', 'x-rate': 'limit=10,remaining=0', 'x-other': 'raw' }
+    msw.use(http.get(`${url}/items`, () => HttpResponse.json([], { headers })))
+    const openapi = openApiValidator({
+        paths: {
+            '/items': {
+                get: {
+                    responses: {
+                        '200': {
+                            headers: {
+                                'X-Total-Count': { schema: { type: 'integer' } },
+                                'X-Tags': { schema: { type: 'array', items: { type: 'string' } } },
+                                'X-Rate': {
+                                    explode: true,
+                                    schema: { type: 'object', properties: { limit: { type: 'integer' } } },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+    })
+    expect((await client({ url })['/items'].get()).headers).toMatchObject(headers)
+    expect((await client({ url, openapi })['/items'].get()).headers).toMatchObject({
+        ...headers,
+        'X-Total-Count': 42,
+        'X-Tags': ['a', 'b'],
+        'X-Rate': { limit: 10, remaining: '0' },
+    })
+})
+
+test('auth', async () => {
+    const tokenRequests: string[] = []
+    let revoked = ''
+    msw.use(
+        http.post(`${url}/token`, async ({ request }) => {
+            tokenRequests.push(`${request.headers.get('authorization')} ${await request.text()}`)
+            return HttpResponse.json({ access_token: `token${tokenRequests.length}`, expires_in: 3600 })
+        }),
+        http.get('*/pages/:id', ({ request, params }) => {
+            const links: { [_ in string]?: string } = {
+                '1': `<${url}/pages/2?cursor=b>; rel="next"`,
+                '2': '<http://other.example.com/pages/3>; rel="next"',
+            }
+            const link = links[params.id as string] ?? ''
+            const body = { authorization: request.headers.get('authorization'), search: new URL(request.url).search }
+            return HttpResponse.json(body, { headers: { link } })
+        }),
+        http.get(`${url}/*`, ({ request }) => {
+            const authorization = request.headers.get('authorization')
+            if (authorization === revoked) return new HttpResponse(null, { status: 401 })
+            return HttpResponse.json({ authorization, search: new URL(request.url).search })
+        }),
+    )
+    const document = {
+        security: [{ key: [] }],
+        paths: {
+            '/basic': { get: { security: [{ basic: [] }] } },
+            '/oauth': { get: { security: [{ oauth: ['read'] }] } },
+            '/refresh': { get: { security: [{ refresh: [] }] } },
+            '/public': { get: { security: [] } },
+            '/pages/{id}': { get: { security: [{ basic: [] }] } },
+        },
+        components: {
+            securitySchemes: {
+                key: { type: 'apiKey', in: 'query', name: 'api_key' },
+                basic: { type: 'http', scheme: 'basic' },
+                oauth: { type: 'oauth2', flows: { clientCredentials: { tokenUrl: '/token', scopes: { read: '' } } } },
+                refresh: { type: 'oauth2', flows: { authorizationCode: { refreshUrl: '/token' } } },
+            },
+        },
+    } as const
+    const auth = openApiAuth(document, {
+        key: 'secret',
+        basic: { username: 'ana', password: 'pw' },
+        oauth: { clientId: 'app', clientSecret: 's3cret', scopes: ['read'] },
+    })
+    const api = client({ url, auth })
+    expect((await api['/items'].get()).body).toEqual({ authorization: null, search: '?api_key=secret' })
+    expect((await api['/basic'].get()).body).toEqual({ authorization: `Basic ${btoa('ana:pw')}`, search: '' })
+    expect((await api['/public'].get()).body).toEqual({ authorization: null, search: '' })
+    const pages = []
+    for await (const page of api['/pages/{id}'].get.paginate({ path: { id: 1 } }, { strategy: 'link' }))
+        pages.push(page)
+    expect(pages).toEqual([
+        { authorization: `Basic ${btoa('ana:pw')}`, search: '' },
+        { authorization: `Basic ${btoa('ana:pw')}`, search: '?cursor=b' },
+        { authorization: null, search: '' },
+    ])
+
+    const oauth = () => api['/oauth'].get<{ authorization: string }>()
+    const first = await Promise.all([oauth(), oauth()])
+    expect(first.map(({ body }) => body.authorization)).toEqual(['Bearer token1', 'Bearer token1'])
+    expect(tokenRequests).toEqual([`Basic ${btoa('app:s3cret')} grant_type=client_credentials&scope=read`])
+    revoked = 'Bearer token1'
+    const refreshed = await Promise.all([oauth(), oauth()])
+    expect(refreshed.map(({ body }) => body.authorization)).toEqual(['Bearer token2', 'Bearer token2'])
+    expect(tokenRequests).toHaveLength(2)
+
+    const refresh = client({ url, auth: openApiAuth(document, { refresh: { refreshToken: 'r1', accessToken: 'a1' } }) })
+    expect((await refresh['/refresh'].get()).body).toEqual({ authorization: 'Bearer a1', search: '' })
+    revoked = 'Bearer a1'
+    expect((await refresh['/refresh'].get()).body).toEqual({ authorization: 'Bearer token3', search: '' })
+    expect(tokenRequests[2]).toBe('null grant_type=refresh_token&refresh_token=r1')
+})
+
+test('auth token abort', async () => {
+    let tokenRequests = 0
+    let wait = 1000
+    msw.use(
+        http.post(`${url}/token`, async () => {
+            tokenRequests++
+            await new Promise(resolve => setTimeout(resolve, wait))
+            return HttpResponse.json({ access_token: `token${tokenRequests}`, expires_in: 3600 })
+        }),
+        http.get(`${url}/oauth`, ({ request }) => HttpResponse.json(request.headers.get('authorization'))),
+    )
+    const document = {
+        security: [{ oauth: [] }],
+        components: {
+            securitySchemes: {
+                oauth: { type: 'oauth2', flows: { clientCredentials: { tokenUrl: '/token', scopes: {} } } },
+            },
+        },
+    } as const
+    const oauth = () => client({ url, auth: openApiAuth(document, { oauth: { clientId: 'app' } }) })
+    const api = oauth()
+    const started = Date.now()
+    await expect(api['/oauth'].get({ timeout: 20 })).rejects.toBeInstanceOf(ClientError)
+    expect(Date.now() - started).toBeLessThan(500)
+    wait = 0
+    expect((await api['/oauth'].get()).body).toBe('Bearer token2')
+
+    wait = 20
+    const shared = oauth()
+    const controller = new AbortController()
+    const aborted = shared['/oauth'].get({ signal: controller.signal })
+    const waiting = shared['/oauth'].get()
+    await new Promise(resolve => setTimeout(resolve, 5))
+    controller.abort()
+    await expect(aborted).rejects.toBeInstanceOf(ClientError)
+    expect((await waiting).body).toBe('Bearer token4')
+})
+
 test('timeout', async () => {
     msw.use(
         http.get<{ wait: string }>(`${url}/:wait`, async ({ params }) => {
@@ -97,9 +787,148 @@ test('retry', async () => {
     await expect(api[''].get({ retry: 2 })).resolves.toBeDefined()
 })
 
+test('retry replays request body', async () => {
+    let run = 0
+    const spy = mock((..._: unknown[]) => {})
+    msw.use(
+        http.post(url, async ({ request }) => {
+            spy(await request.text())
+            return new HttpResponse('', { status: run++ === 1 ? 200 : 500 })
+        }),
+    )
+    const api = client({ url, retryDelay: [0] })
+    await expect(api[''].post({ body: { data: 'json' }, retry: 1 })).resolves.toBeDefined()
+    expect(spy.mock.calls).toEqual([['{"data":"json"}'], ['{"data":"json"}']])
+
+    const stream = (size: number) => new Blob([new Uint8Array(size).fill(97)]).stream()
+    run = 0
+    spy.mockClear()
+    await expect(api[''].post({ body: stream(4), retry: 1, retryBodyLimit: 4 })).resolves.toBeDefined()
+    expect(spy.mock.calls).toEqual([['aaaa'], ['aaaa']])
+    run = 0
+    spy.mockClear()
+    await expect(api[''].post({ body: stream(5), retry: 1, retryBodyLimit: 4 })).rejects.toMatchObject({
+        error: 'replay',
+    })
+    expect(spy.mock.calls).toEqual([['aaaaa']])
+})
+
+test('retry delay', async () => {
+    let run = 0
+    const headers = { 'retry-after': '0' }
+    msw.use(http.get(url, () => new HttpResponse('', { status: run++ === 1 ? 200 : 429, headers })))
+    const api = client({ url, retry: 1, retryDelay: [60_000] })
+    await expect(api[''].get({ retryAfter: 'respect' })).resolves.toBeDefined()
+    run = 0
+    headers['retry-after'] = '60'
+    await expect(api[''].get({ retryAfter: { max: 1000 } })).rejects.toThrow()
+    expect(run).toBe(1)
+    run = 0
+    await expect(api[''].get({ retryDelay: { base: 0 } })).resolves.toBeDefined()
+})
+
+test('retry on network errors and timeouts', async () => {
+    let run = 0
+    msw.use(http.get(`${url}/network`, () => (run++ === 0 ? HttpResponse.error() : new HttpResponse())))
+    msw.use(
+        http.get(`${url}/timeout`, async () => {
+            await new Promise(resolve => setTimeout(resolve, run++ === 0 ? 100 : 0))
+            return new HttpResponse()
+        }),
+    )
+    const api = client({ url, retry: 1, retryDelay: [0] })
+    await expect(api['network'].get()).rejects.toMatchObject({ attempts: 1 })
+    run = 0
+    await expect(api['network'].get({ retryOn: ['network'] })).resolves.toBeDefined()
+    run = 0
+    await expect(api['timeout'].get({ attemptTimeout: 50 })).rejects.toMatchObject({ attempts: 1 })
+    run = 0
+    await expect(api['timeout'].get({ attemptTimeout: 50, retryOn: ['timeout'] })).resolves.toBeDefined()
+    run = 0
+    const error = await api['timeout'].get({ attemptTimeout: 50, retryOn: ['timeout'], retry: 0 }).catch(e => e)
+    expect(error).toMatchObject({ attempts: 1, error: { name: 'TimeoutError' } })
+})
+
+test('middleware', async () => {
+    let run = 0
+    msw.use(http.get(url, () => new HttpResponse('', { status: run++ === 1 ? 200 : 500 })))
+    const calls: string[] = []
+    const logger =
+        (name: string): Middleware =>
+        async (request, next) => {
+            calls.push(`${name} ${request.method}`)
+            const response = await next(request)
+            calls.push(`${name} ${response.status}`)
+            return response
+        }
+    const api = client({ url, retry: 1, retryDelay: [0], use: [logger('client')] })
+    await expect(api[''].get({ use: [logger('call')] })).resolves.toBeDefined()
+    expect(calls).toEqual([
+        'client GET',
+        'call GET',
+        'call 500',
+        'client 500',
+        'client GET',
+        'call GET',
+        'call 200',
+        'client 200',
+    ])
+
+    const mock: Middleware = () => Response.json({ data: 'mock' })
+    expect((await api[''].get({ use: [mock] })).body).toEqual({ data: 'mock' })
+})
+
+test('error interceptor', async () => {
+    msw.use(http.get(url, () => HttpResponse.json({ error: 'not found' }, { status: 404 })))
+    const spy = mock((..._: unknown[]) => {})
+    const api = client({ url, interceptError: error => spy(error.status) })
+    await expect(api[''].get()).rejects.toBeInstanceOf(ClientError)
+    expect(spy).toHaveBeenCalledWith(404)
+
+    const recover = ({ request, response, status }: ClientError) =>
+        status === 404 ? { request, response: response!, status, body: null } : undefined
+    expect((await api[''].get({ interceptError: recover })).body).toBeNull()
+    expect(spy).toHaveBeenCalledTimes(2)
+
+    const translate = () => {
+        throw new RangeError('domain')
+    }
+    await expect(api[''].get({ interceptError: translate })).rejects.toBeInstanceOf(RangeError)
+
+    const replace = (response: Response) => new Response(null, { status: response.status, headers: { seen: 'yes' } })
+    const error = await api[''].get({ interceptResponse: replace }).catch((error: ClientError) => error)
+    expect(error.response?.headers.get('seen')).toBe('yes')
+    expect(error.body).toEqual({ error: 'not found' })
+})
+
+test('non-throwing result', async () => {
+    msw.use(http.get(`${url}/ok`, () => HttpResponse.json({ data: 'ok' })))
+    msw.use(http.get(`${url}/error`, () => HttpResponse.json({ error: 'not found' }, { status: 404 })))
+    const api = client({ url })
+    expect(await api['ok'].get({ throw: false })).toMatchObject({ ok: true, status: 200, body: { data: 'ok' } })
+    const result = await api['error'].get({ throw: false })
+    expect(result).toMatchObject({ ok: false, error: { status: 404, body: { error: 'not found' } } })
+    expect(!result.ok && result.error).toBeInstanceOf(ClientError)
+    const untyped: ClientRequest = { url, throw: false }
+    await expect(client(untyped)['error'].get()).rejects.toBeInstanceOf(ClientError)
+})
+
 test('types (tsc --noEmit)', () => {
     const tsc = Bun.spawnSync(['node_modules/.bin/tsc', '--noEmit'], { stdout: 'pipe', stderr: 'pipe' })
     const output = (tsc.stdout.toString() + tsc.stderr.toString()).trim()
     if (tsc.exitCode !== 0) console.error(output)
     expect(tsc.exitCode).toBe(0)
 }, 60_000)
+
+test('types performance (tsc --extendedDiagnostics)', () => {
+    const options = ['--ignoreConfig', '--noEmit', '--extendedDiagnostics', '--strict', '--skipLibCheck']
+    const modules = ['--target', 'esnext', '--module', 'esnext', '--moduleResolution', 'bundler', '--types', 'bun']
+    const tsc = Bun.spawnSync(['node_modules/.bin/tsc', ...options, ...modules, 'src/client.test.perf.ts'], {
+        stdout: 'pipe',
+        stderr: 'pipe',
+    })
+    const output = (tsc.stdout.toString() + tsc.stderr.toString()).trim()
+    if (tsc.exitCode !== 0) console.error(output)
+    expect(tsc.exitCode).toBe(0)
+    expect(+output.match(/^Instantiations:\s+(\d+)$/m)![1]).toBeLessThan(500_000)
+}, 60_000)
@@ -6,8 +6,10 @@
  * type to see it fail.
  */
 import { client } from './client'
+import type { OpenApiValidator } from './openapi'
 import { ClientResponse } from './types/client'
-import { FromOpenApiSpec } from './types/openapi'
+import { CombineOpenApiSpecs, FromOpenApiSpec, OpenApiCredentials } from './types/openapi'
+import { StandardSchema } from './types/standard'
 import { ExpandBlock } from './types/util'
 
 /** True only when `A` and `B` are mutually assignable (exact equality). */
@@ -119,5 +121,366 @@ async function defaultStatus() {
     expect<Equal<typeof explicit.status, 200 | 400>>()
 }
 
+// ---------------------------------------------------------------------------
+// Non-throwing result mode
+// ---------------------------------------------------------------------------
+
+// `throw: false` resolves to an `ok` discriminated result, with the error side typed from 3XX/4XX/5XX responses.
+async function result() {
+    const thrown = await api['/x'].get({ throw: true })
+    expect<Equal<typeof thrown.body, 'ok'>>()
+
+    const r = await api['/x'].get({ throw: false })
+    if (r.ok) expect<Equal<typeof r.body, 'ok'>>()
+    if (!r.ok && r.error.status === 404) expect<Equal<typeof r.error.body, 'notfound' | undefined>>()
+    if (!r.ok && r.error.status === 401) expect<Equal<typeof r.error.body, 'other4xx' | undefined>>()
+
+    // Client defaults cannot set `throw`, it would not be reflected in the call results.
+    // @ts-expect-error
+    client<Spec>({ throw: false })
+}
+
+// ---------------------------------------------------------------------------
+// Response headers
+// ---------------------------------------------------------------------------
+
+// Declared headers are typed per status, required ones are not optional, and `content-type` is ignored. They are
+// parsed by their declared names with `openapi`, on the client or the call, or raw strings by lowercase name otherwise.
+type HeaderSpec = FromOpenApiSpec<{
+    openapi: '3.1.0'
+    paths: {
+        '/x': {
+            get: {
+                responses: {
+                    '200': {
+                        headers: {
+                            'X-Total-Count': { $ref: '#/components/headers/Total' }
+                            Link: { schema: { type: 'array'; items: { type: 'string' } } }
+                            'Content-Type': { schema: { type: 'string' } }
+                        }
+                    }
+                    '429': { headers: { 'Retry-After': { required: true; schema: { type: 'integer' } } } }
+                }
+            }
+        }
+    }
+    components: { headers: { Total: { required: true; schema: { type: 'integer' } } } }
+}>
+declare const validator: OpenApiValidator
+const headerApi = client<HeaderSpec>({ openapi: validator })
+const rawHeaderApi = client<HeaderSpec>()
+
+async function responseHeaders() {
+    const { headers } = await headerApi['/x'].get()
+    expect<Equal<typeof headers, { 'X-Total-Count': number } & { Link?: string[] }>>()
+
+    const r = await headerApi['/x'].get({ status: [200, 429, 503] })
+    if (r.status === 429) expect<Equal<(typeof r.headers)['Retry-After'], number>>()
+    if (r.status === 503) expect<Equal<typeof r.headers, { [_ in string]: string }>>()
+
+    const raw = await rawHeaderApi['/x'].get()
+    expect<Equal<typeof raw.headers, { 'x-total-count': string; link?: string }>>()
+    const parsed = await rawHeaderApi['/x'].get({ openapi: validator })
+    expect<Equal<(typeof parsed.headers)['X-Total-Count'], number>>()
+}
+
+// ---------------------------------------------------------------------------
+// Media types
+// ---------------------------------------------------------------------------
+
+// Bodies are typed by media type: the `contentType` and `accept` options select one.
+type MediaSpec = FromOpenApiSpec<{
+    openapi: '3.1.0'
+    paths: {
+        '/avatar': {
+            put: {
+                requestBody: {
+                    required: true
+                    content: {
+                        'application/json': { schema: { type: 'object'; properties: { url: { type: 'string' } } } }
+                        'multipart/form-data': {
+                            schema: {
+                                type: 'object'
+                                properties: { file: { type: 'string'; format: 'binary' } }
+                                required: ['file']
+                            }
+                        }
+                        'image/png': {}
+                    }
+                }
+                responses: {
+                    '200': {
+                        content: {
+                            'application/json': { schema: { type: 'object'; properties: { url: { type: 'string' } } } }
+                            'image/png': {}
+                        }
+                    }
+                }
+            }
+        }
+    }
+}>
+const media = client<MediaSpec>()
+
+async function mediaTypes() {
+    await media['/avatar'].put({ body: { url: '' } })
+    await media['/avatar'].put({ contentType: 'multipart/form-data', body: { file: new Blob() } })
+    await media['/avatar'].put({ contentType: 'image/png', body: new Blob() })
+    // @ts-expect-error multipart body without its required file
+    await media['/avatar'].put({ contentType: 'multipart/form-data', body: { url: '' } })
+    // @ts-expect-error JSON body with a binary content type
+    await media['/avatar'].put({ contentType: 'image/png', body: { url: '' } })
+
+    const any = await media['/avatar'].put({ body: { url: '' } })
+    expect<Equal<Extract<typeof any.body, Blob>, Blob>>()
+    expect<Equal<Exclude<typeof any.body, Blob>['url'], string | undefined>>()
+    const image = await media['/avatar'].put({ body: { url: '' }, accept: 'image/png' })
+    expect<Equal<typeof image.body, Blob>>()
+    const json = await media['/avatar'].put({ body: { url: '' }, accept: 'application/json' })
+    expect<Equal<(typeof json.body)['url'], string | undefined>>()
+    // @ts-expect-error undeclared response media type
+    await media['/avatar'].put({ body: { url: '' }, accept: 'text/html' })
+}
+
+// ---------------------------------------------------------------------------
+// Streamed responses
+// ---------------------------------------------------------------------------
+
+// Responses declaring an `itemSchema` are typed as an async iterable of items.
+type StreamSpec = FromOpenApiSpec<{
+    openapi: '3.2.0'
+    paths: {
+        '/events': {
+            get: {
+                responses: {
+                    '200': {
+                        content: {
+                            'application/jsonl': {
+                                itemSchema: { type: 'object'; properties: { n: { type: 'number' } }; required: ['n'] }
+                            }
+                        }
+                    }
+                }
+            }
+        }
+    }
+}>
+type Items = StreamSpec['/events']['get']['responses'][200]
+expect<Equal<Items extends AsyncIterable<infer Item extends { n: unknown }> ? Item['n'] : never, number>>()
+
+// ---------------------------------------------------------------------------
+// Pagination
+// ---------------------------------------------------------------------------
+
+// Pages are typed from the success response body, items from `items`, and `param` from the query parameters.
+type PageSpec = FromOpenApiSpec<{
+    openapi: '3.1.0'
+    paths: {
+        '/items': {
+            get: {
+                parameters: [
+                    { name: 'cursor'; in: 'query'; schema: { type: 'string' } },
+                    { name: 'page'; in: 'query'; schema: { type: 'integer' } },
+                ]
+                responses: {
+                    '200': {
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object'
+                                    properties: { items: { type: 'array'; items: { type: 'number' } } }
+                                    required: ['items']
+                                }
+                            }
+                        }
+                    }
+                }
+            }
+        }
+    }
+}>
+const pages = client<PageSpec>()
+
+async function pagination() {
+    for await (const page of pages['/items'].get.paginate({}, { strategy: 'link' })) {
+        expect<Equal<typeof page.items, number[]>>()
+    }
+    const items = pages['/items'].get.paginate(
+        {},
+        { strategy: 'cursor', param: 'cursor', cursor: () => '', items: page => page.items },
+    )
+    for await (const item of items) expect<Equal<typeof item, number>>()
+    // @ts-expect-error unknown query parameter
+    pages['/items'].get.paginate({}, { strategy: 'offset', param: 'offset', items: page => page.items })
+    // @ts-expect-error pages that are not arrays are counted by `items`
+    pages['/items'].get.paginate({}, { strategy: 'page', param: 'page' })
+    pages['/items'].get.paginate({}, { strategy: 'page', param: 'page', items: page => page.items })
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+// The output type of the `validate` response validator replaces the body, keeping the resolved status codes.
+declare const schema: StandardSchema<unknown, { valid: true }>
+async function validation() {
+    const validated = await api['/x'].get({ validate: schema, status: [200, 404] })
+    expect<Equal<typeof validated.status, 200 | 404>>()
+    expect<Equal<typeof validated.body, { valid: true }>>()
+    const nested = await api['/x'].get({ validate: { response: schema } })
+    expect<Equal<typeof nested.body, { valid: true }>>()
+    const request = await api['/x'].get({ validate: { request: schema } })
+    expect<Equal<typeof request.body, 'ok'>>()
+}
+
+// ---------------------------------------------------------------------------
+// Combined spec fragments
+// ---------------------------------------------------------------------------
+
+// Paths of every fragment resolve `$ref`s against the components of all fragments, and methods of the same path merge.
+type UsersFragment = {
+    openapi: '3.1.0'
+    paths: {
+        '/users': {
+            get: {
+                responses: {
+                    '200': { content: { 'application/json': { schema: { $ref: '#/components/schemas/Group' } } } }
+                }
+            }
+        }
+    }
+    components: { schemas: { User: { type: 'object'; properties: { name: { type: 'string' } }; required: ['name'] } } }
+}
+type GroupsFragment = {
+    paths: {
+        '/users': {
+            post: {
+                responses: {
+                    '201': { content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } } }
+                }
+            }
+        }
+    }
+    components: { schemas: { Group: { type: 'array'; items: { $ref: '#/components/schemas/User' } } } }
+}
+type CombinedSpec = FromOpenApiSpec<CombineOpenApiSpecs<[UsersFragment, GroupsFragment]>>
+expect<Equal<CombinedSpec['/users']['get']['responses'][200][number]['name'], string>>()
+expect<Equal<CombinedSpec['/users']['post']['responses'][201]['name'], string>>()
+
+// ---------------------------------------------------------------------------
+// JSON Schemas
+// ---------------------------------------------------------------------------
+
+// A `oneOf` with a `discriminator` narrows by its property, typed from `mapping` or the `$ref` name, `readOnly`
+// properties are dropped from requests and `writeOnly` ones from responses, `prefixItems` with `items: false` are
+// tuples, and `patternProperties` are template literal keys.
+type SchemaSpec = FromOpenApiSpec<{
+    openapi: '3.1.0'
+    paths: {
+        '/pets': {
+            post: {
+                requestBody: { content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } }
+                responses: {
+                    '200': { content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } }
+                }
+            }
+        }
+    }
+    components: {
+        schemas: {
+            Pet: {
+                oneOf: [{ $ref: '#/components/schemas/Cat' }, { $ref: '#/components/schemas/Dog' }]
+                discriminator: { propertyName: 'kind'; mapping: { dog: '#/components/schemas/Dog' } }
+            }
+            Cat: {
+                type: 'object'
+                properties: {
+                    kind: { type: 'string' }
+                    id: { type: 'integer'; readOnly: true }
+                    lives: { type: 'integer' }
+                }
+                required: ['kind', 'id', 'lives']
+            }
+            Dog: {
+                type: 'object'
+                properties: {
+                    kind: { type: 'string' }
+                    password: { type: 'string'; writeOnly: true }
+                    position: { type: 'array'; prefixItems: [{ type: 'number' }, { type: 'number' }]; items: false }
+                    labels: { type: 'object'; patternProperties: { '^x-': { type: 'string' } } }
+                }
+                required: ['kind', 'password']
+            }
+        }
+    }
+}>
+const pets = client<SchemaSpec>()
+
+async function schemas() {
+    await pets['/pets'].post({ body: { kind: 'Cat', lives: 9 } })
+    await pets['/pets'].post({ body: { kind: 'dog', password: '', labels: { 'x-color': 'brown' } } })
+    // @ts-expect-error mapped subschemas use their mapping keys
+    await pets['/pets'].post({ body: { kind: 'Dog', password: '' } })
+    // @ts-expect-error label not matching the pattern
+    await pets['/pets'].post({ body: { kind: 'dog', password: '', labels: { 'x-color': 1 } } })
+
+    type Cat = Extract<SchemaSpec['/pets']['post']['request'], { kind: 'Cat' }>
+    expect<Equal<'id' extends keyof Cat ? true : false, false>>()
+
+    const { body } = await pets['/pets'].post({ body: { kind: 'Cat', lives: 9 } })
+    if (body.kind === 'Cat') {
+        expect<Equal<typeof body.id, number>>()
+    } else {
+        expect<Equal<typeof body.kind, 'dog'>>()
+        expect<Equal<typeof body.position, [number, number] | undefined>>()
+        expect<Equal<NonNullable<typeof body.labels>[`x-${string}`], string>>()
+        expect<Equal<'password' extends keyof typeof body ? true : false, false>>()
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Security
+// ---------------------------------------------------------------------------
+
+// Operations surface their `security` requirements, or the spec ones, and credentials are typed by scheme type.
+type SecuritySpec = {
+    openapi: '3.1.0'
+    security: [{ key: [] }]
+    paths: {
+        '/me': { get: { security: [{ oauth: ['read'] }, {}]; responses: {} } }
+        '/items': { get: { responses: {} } }
+    }
+    components: {
+        securitySchemes: {
+            key: { type: 'apiKey'; in: 'header'; name: 'x-api-key' }
+            basic: { type: 'http'; scheme: 'basic' }
+            oauth: { type: 'oauth2'; flows: { clientCredentials: { tokenUrl: '/token'; scopes: { read: '' } } } }
+        }
+    }
+}
+type SecuredSpec = FromOpenApiSpec<SecuritySpec>
+expect<Equal<SecuredSpec['/me']['get']['security'], { oauth: ['read'] } | {}>>()
+expect<Equal<SecuredSpec['/items']['get']['security'], { key: [] }>>()
+
+const credentials: OpenApiCredentials<SecuritySpec> = {
+    key: () => 'secret',
+    basic: { username: 'ana', password: '' },
+    oauth: { clientId: 'app', clientSecret: '' },
+}
+// @ts-expect-error basic schemes take a username and password
+const basicToken: OpenApiCredentials<SecuritySpec> = { basic: 'secret' }
+
 // Reference values so nothing is flagged as unused.
-export const _typeTest = { api, narrowing, defaultStatus }
+export const _typeTest = {
+    api,
+    narrowing,
+    defaultStatus,
+    result,
+    responseHeaders,
+    mediaTypes,
+    pagination,
+    validation,
+    schemas,
+    credentials,
+    basicToken,
+}
@@ -1,11 +1,41 @@
-import { Client, ClientError, ClientRequest, ClientResponse, DefaultSpec } from './types/client'
+import {
+    CacheEntry,
+    cacheEntry,
+    ClientCache,
+    conditionalHeaders,
+    lookupEntry,
+    memoryCache,
+    refreshEntry,
+} from './cache'
+import { Limiter, limiter } from './limit'
+import type { OpenApiValidator } from './openapi'
+import { serializeHeader, serializePath, serializeQuery } from './serialize'
+import { readEvents, readLines, readNdjson } from './stream'
+import {
+    Client,
+    ClientError,
+    ClientPagination,
+    ClientProgress,
+    ClientRequest,
+    ClientResponse,
+    DefaultSpec,
+} from './types/client'
 
 /**
  * Create a typed fetch client based on the provided {@linkcode ClientSpec}.
  *
- * @param clientOptions Default options for the client.
+ * Clients with `openapi` type the declared response headers as parsed by their schemas.
+ *
+ * @param clientOptions Default options for the client, except `throw`, which is set per call to type its result.
  */
-export const client = <Spec = DefaultSpec, Bypass = true>(defaults: ClientRequest = {}): Client<Spec, Bypass> => {
+export function client<Spec = DefaultSpec, Bypass = true>(
+    clientOptions: Omit<ClientRequest, 'throw'> & { openapi: OpenApiValidator },
+): Client<Spec, Bypass, { openapi: OpenApiValidator }>
+export function client<Spec = DefaultSpec, Bypass = true>(
+    clientOptions?: Omit<ClientRequest, 'throw'>,
+): Client<Spec, Bypass>
+export function client(clientOptions: Omit<ClientRequest, 'throw'> = {}): unknown {
+    const defaults: ClientRequest = { ...clientOptions, throw: undefined }
     type ProxyObject = { path?: string; method?: string; children: { [_ in string]: ProxyObject } }
     const proxyObject = (path?: string, method?: string) => Object.assign(() => {}, { path, method, children: {} })
 
@@ -13,6 +43,9 @@ export const client = <Spec = DefaultSpec, Bypass = true>(defaults: ClientReques
         apply: (target, _, [request = {}]: [ClientRequest?]) => call(target.path!, target.method!, defaults, request),
         get: (target, pathOrMethod, receiver) => {
             if (typeof pathOrMethod !== 'string' || pathOrMethod === '$') return receiver
+            if (target.method !== undefined && pathOrMethod === 'paginate')
+                return (request: ClientRequest, pagination: ClientPagination) =>
+                    paginate(target.path!, target.method!, pagination, defaults, request)
             const path = target.path ?? pathOrMethod
             const method = target.path !== undefined ? pathOrMethod.toLowerCase() : undefined
             const key = method ?? path
@@ -20,7 +53,7 @@ export const client = <Spec = DefaultSpec, Bypass = true>(defaults: ClientReques
         },
     }
 
-    return new Proxy(proxyObject(), proxyHandler) as unknown as Client<Spec, Bypass>
+    return new Proxy(proxyObject(), proxyHandler)
 }
 
 /**
@@ -34,102 +67,784 @@ export const call = async (
     path: URL | string,
     method: string,
     ...options: ClientRequest[]
+): Promise<ClientResponse> => {
+    const { throw: throws = true } = Object.assign({}, ...options) as ClientRequest
+    let response: ClientResponse
+    try {
+        response = await send(path, method, options)
+    } catch (error) {
+        if (!(error instanceof ClientError)) throw error
+        let recovered
+        for (const { interceptError } of options) if ((recovered = await interceptError?.(error))) break
+        if (!recovered && throws) throw error
+        if (!recovered) return { ok: false, error } as unknown as ClientResponse
+        response = { headers: Object.fromEntries(recovered.response.headers), ...recovered } as ClientResponse
+    }
+    return (throws ? response : { ok: true, ...response }) as ClientResponse
+}
+
+/**
+ * Iterate the pages of a paginated endpoint with {@linkcode call}, or their items, see {@linkcode ClientPagination}.
+ *
+ * Each page is a separate call, with its own retries and timeout. Failed pages throw even if `throw` is `false`. Pages
+ * of `Link` headers are sent to the linked URL as calls of the same operation, validated like the first page, and
+ * authenticated with `auth` only if the link is on the origin of a `url` server.
+ *
+ * @param path Request path.
+ * @param method Request method.
+ * @param pagination Pagination strategy.
+ * @param options Request options.
+ */
+export async function* paginate(
+    path: URL | string,
+    method: string,
+    pagination: ClientPagination,
+    ...options: ClientRequest[]
+): AsyncGenerator<unknown, void, undefined> {
+    const items = pagination.items ?? ((page: unknown) => (Array.isArray(page) ? page : []))
+    const queries = Object.assign({}, ...options.map(({ query }) => query)) as { [_ in string]: unknown }
+    let query: { [_ in string]: unknown } =
+        pagination.strategy === 'page' || pagination.strategy === 'offset'
+            ? { [pagination.param]: pagination.start ?? +(pagination.strategy === 'page') }
+            : {}
+    let link: string | undefined
+    for (let count = 0; count < (pagination.limit ?? Infinity); count++) {
+        const pageOptions: ClientRequest = { query, throw: true }
+        if (link) pageLinks.set(pageOptions, link)
+        const { request, response, body } = await call(path, method, ...options, pageOptions)
+        const page = items(body)
+        const counted = !!pagination.items || Array.isArray(body)
+        const numbered = pagination.strategy === 'page' || pagination.strategy === 'offset'
+        if (numbered && counted && !page.length) return
+        if (pagination.items) yield* page
+        else yield body
+        if (numbered && !counted) return
+        if (pagination.strategy === 'link') {
+            const target = linkTarget(response.headers.get('link') ?? '', 'next')
+            if (!target) return
+            const next = new URL(target, response.url || (request as unknown as Request).url)
+            const params = [...new Set(next.searchParams.keys())].map(key => [key, next.searchParams.getAll(key)])
+            link = next.href
+            query = {
+                ...Object.fromEntries(Object.keys(queries).map(key => [key, undefined])),
+                ...Object.fromEntries(params.map(([key, values]) => [key, values.length > 1 ? values : values[0]])),
+            }
+        } else if (pagination.strategy === 'cursor') {
+            const cursor = pagination.cursor(body)
+            if (cursor == undefined || cursor === '') return
+            query = { [pagination.param]: cursor }
+        } else {
+            const position = query[pagination.param] as number
+            query = { [pagination.param]: position + (pagination.strategy === 'page' ? 1 : page.length) }
+        }
+    }
+}
+
+/**
+ * List the server URLs of an OpenAPI document, to be used as the client `url`.
+ *
+ * Server variables are replaced by `variables` values or their defaults.
+ *
+ * @param spec OpenAPI document.
+ * @param variables Server variable values.
+ */
+export const serverUrls = (
+    { servers = [] }: { servers?: { url: string; variables?: { [_ in string]: { default: string } } }[] },
+    variables: { [_ in string]: string } = {},
+) =>
+    servers.map(({ url, variables: defaults = {} }) =>
+        url.replace(/{([^}]+)}/g, (match, name) => variables[name] ?? defaults[name]?.default ?? match),
+    )
+
+/**
+ * Perform the HTTP call of {@linkcode call}, without error interception.
+ *
+ * @param path Request path.
+ * @param method Request method.
+ * @param options Request options.
+ * @param detached Signal replacing the options signals, used for calls shared between callers.
+ * @param intercepted Request already intercepted by `interceptRequest`, used for calls shared between callers.
+ */
+const send = async (
+    path: URL | string,
+    method: string,
+    options: ClientRequest[],
+    detached?: AbortSignal,
+    intercepted?: Request,
 ): Promise<ClientResponse> => {
     const merged = options.reduce(($, opts) => Object.assign($, opts), {})
     const {
         url: baseUrl,
-        body: rawBody,
+        urlStrategy = 'failover',
+        body: inputBody,
         parse = true,
         timeout = Infinity,
         timeoutReset = false,
+        attemptTimeout = Infinity,
         retry = 0,
+        retryOn = ['status'],
         retryDelay = [100, 500, 2500, 10000],
+        retryAfter = 'ignore',
         retryStatus = [408, 425, 429, 5],
+        retryBodyLimit = 2 ** 20,
+        onUploadProgress,
+        onDownloadProgress,
+        httpCache = false,
+        cache: cacheMode,
+        dedupe = false,
+        circuit,
+        validate,
+        openapi,
+        auth,
+        querySerializer,
+        contentType: requestType,
+        accept,
         status: matchStatus = [2],
     } = merged
+    const styleOf = (location: 'path' | 'query' | 'header', name: string) => {
+        const styles = options.map(({ style }) => style?.[location])
+        return Object.assign({}, ...styles, ...styles.map(style => style?.parameters?.[name]))
+    }
     const paths = options.reduce<{ [_ in string]: unknown }>(($, { path }) => Object.assign($, path), {})
     const queries = options.reduce<{ [_ in string]: unknown }>(($, { query }) => Object.assign($, query), {})
     const headers = options
         .flatMap(({ header }) => Object.entries(header ?? {}))
         .filter(([, value]) => value != undefined)
-        .reduce<{ [_ in string]: string }>(($, [key, value]) => (($[key.toLowerCase()] = value!), $), {})
+        .reduce<{ [_ in string]: string }>(
+            ($, [key, value]) => (($[key.toLowerCase()] = serializeHeader(value, styleOf('header', key))), $),
+            {},
+        )
     const cookies = Object.entries({
         ...Object.fromEntries(headers['cookie']?.split(';').map(c => c.trim().split('=')) ?? []),
         ...options.reduce<{ [_ in string]?: string }>(($, { cookie }) => Object.assign($, cookie), {}),
     })
     if (cookies.length) headers['cookie'] = cookies.map(([key, value]) => `${key}=${value}`).join('; ')
+    if (requestType && !headers['content-type']) headers['content-type'] = requestType
 
     method = method.toUpperCase()
-    path = `${path}`.replace(/{([^.]+?)}/g, (_, k) => encodeURIComponent(`${paths[k] ?? ''}`) || `{${k}}`)
-    const url = new URL(resolveUrl(`${baseUrl}`, path))
-    Object.entries(queries)
-        .filter(([, value]) => value != undefined)
-        .forEach(([key, value]) => [value].flat().forEach(v => url.searchParams.append(key, `${v}`)))
+    const template = `${path}`
+    const accepted = accept ?? openapi?.accept(template, method).join(', ')
+    if (accepted && !headers['accept']) headers['accept'] = accepted
+    path = template.replace(
+        /{([^.]+?)}/g,
+        (_, k) => (paths[k] != undefined && serializePath(k, paths[k], styleOf('path', k))) || `{${k}}`,
+    )
+    const link = options.map(opts => pageLinks.get(opts)).findLast(value => value)
+    const bases = [baseUrl].flat()
+    const configured = [
+        ...new Set((bases.length ? bases : [undefined]).map(base => new URL(resolveUrl(`${base}`, path)).href)),
+    ]
+    const servers = link ? [link] : configured
+    const trusted = !link || configured.some(server => new URL(server).origin === new URL(link).origin)
+    const url = new URL(servers[0])
+    const query = Object.entries(queries).filter(([, value]) => value != undefined)
+    const search = querySerializer
+        ? querySerializer(Object.fromEntries(query))
+        : `${new URLSearchParams(query.flatMap(([key, value]) => serializeQuery(key, value, styleOf('query', key))))}`
+    if (search && !link) url.search = [url.search.slice(1), search].filter(part => part).join('&')
 
+    const validators = validate && '~standard' in validate ? { response: validate } : (validate ?? {})
+    const input =
+        validators.request && inputBody !== undefined
+            ? await validators.request['~standard'].validate(inputBody)
+            : { value: inputBody }
+    const rawBody = input.issues ? undefined : input.value
     const isJson = !!rawBody && jsonPrototypes.includes(Object.getPrototypeOf(rawBody))
     if (isJson && !headers['content-type']) headers['content-type'] = 'application/json'
-    const body = isJson ? JSON.stringify(rawBody) : (rawBody as BodyInit)
+    const parameters = { path: paths, query: queries, header: headers, cookie: Object.fromEntries(cookies) }
+    const contentType = headers['content-type'] ?? ''
+    const issues = input.issues ?? openapi?.request(template, method, { ...parameters, body: rawBody, contentType })
+    if (issues?.length) {
+        const request = new Request(url, { method, headers })
+        throw new ClientError(request, undefined, 'validation', undefined, undefined, 0, undefined, issues)
+    }
+    const responseHeaders = (response: Response) => ({
+        ...Object.fromEntries(response.headers),
+        ...openapi?.headers(template, method, response.status, response.headers),
+    })
+
+    type Parsers = NonNullable<ClientRequest['parsers']>
+    type Serializers = NonNullable<ClientRequest['serializers']>
+    const parsers = options.reduce<Parsers>(($, { parsers }) => Object.assign($, parsers), { ...defaultParsers })
+    const serializers = options.reduce<Serializers>(($, { serializers }) => Object.assign($, serializers), {
+        ...defaultSerializers,
+    })
+    const serializer = isJson ? (matchMediaType(serializers, headers['content-type']) ?? JSON.stringify) : undefined
+    const body = serializer ? await serializer(rawBody) : (rawBody as BodyInit)
+    if (body instanceof FormData && !/boundary=/.test(headers['content-type'] ?? '')) delete headers['content-type']
 
     const abortController = new AbortController()
-    const signals = [abortController.signal, ...options.map(({ signal }) => signal!).filter(v => v)]
+    const signals = [
+        abortController.signal,
+        ...(detached ? [detached] : options.map(({ signal }) => signal!).filter(v => v)),
+    ]
     const signal = AbortSignal.any(signals)
 
-    const request = await options.reduce(
-        async ($, { interceptRequest }) => (await interceptRequest?.(await $)) ?? $,
-        Promise.resolve(new Request(url, { ...(merged as RequestInit), method, headers, signal, body })),
-    )
+    let request = intercepted
+        ? new Request(intercepted, { signal })
+        : await options.reduce(
+              async ($, { interceptRequest }) => (await interceptRequest?.(await $)) ?? $,
+              Promise.resolve(new Request(url, { ...(merged as RequestInit), method, headers, signal, body })),
+          )
+    const owner = options[0]
+    const deduped =
+        dedupe &&
+        /^(GET|HEAD|OPTIONS)$/.test(method) &&
+        parse === true &&
+        options.slice(1).every(opts => sharedOptions.every(name => opts[name] === undefined))
+    const dedupeKey = deduped ? (typeof dedupe === 'function' ? dedupe : requestKey)(request) : undefined
+    if (dedupeKey !== undefined) {
+        const calls = inflight.get(owner) ?? inflight.set(owner, new Map()).get(owner)!
+        const shared = (signal: AbortSignal) => send(template, method, [...options, { dedupe: false }], signal, request)
+        return join(calls, dedupeKey, request, signal, shared)
+    }
+
+    const respond = async (
+        raw: Response,
+        parsedBody: unknown,
+        validated: boolean,
+        { error, attempts, cause }: { attempts: number; cause?: unknown; error?: 'status' | 'replay' },
+    ) => {
+        const response = await options.reduce(
+            async ($, { interceptResponse }) => (await interceptResponse?.(await $)) ?? $,
+            Promise.resolve(raw),
+        )
+        const { status } = response
+        if (error) throw new ClientError(request, response, error, status, parsedBody, attempts, cause)
+        const responseType = raw.headers.get('content-type') ?? ''
+        const output =
+            validated && validators.response
+                ? await validators.response['~standard'].validate(parsedBody)
+                : { value: parsedBody }
+        const issues =
+            output.issues ??
+            (validated ? openapi?.response(template, method, raw.status, responseType, parsedBody) : [])
+        if (output.issues || issues?.length)
+            throw new ClientError(request, response, 'validation', status, parsedBody, attempts, cause, issues)
+        return {
+            request,
+            response,
+            status,
+            headers: responseHeaders(response),
+            body: output.value,
+        } as ClientResponse
+    }
+    const middlewares = options
+        .flatMap(({ use }) => use ?? [])
+        .reduceRight<(request: Request) => Promise<Response>>(
+            (next, middleware) => async request => middleware(request, next),
+            request => globalThis.fetch(request),
+        )
+    const authorized = trusted ? auth : undefined
+    const dispatch = authorized
+        ? (request: Request) => authorized.authorize(template, method, request, middlewares)
+        : middlewares
+    const credentials = !!authorized && (!authorized.requirement || !!authorized.requirement(template, method))
+    const store =
+        httpCache === true ? (caches.get(owner) ?? caches.set(owner, memoryCache()).get(owner)) : httpCache || undefined
+    const cacheKey = store && method === 'GET' && parse === true && cacheMode !== 'no-store' ? `${method} ${url}` : ''
+    const cached = cacheKey ? await lookupEntry(store!, cacheKey, request.headers, cacheMode) : undefined
+    if (cached && cached.state !== 'expired') {
+        if (cached.state === 'stale') {
+            const revalidation = new AbortController().signal
+            send(template, method, [...options, { cache: 'no-cache' }], revalidation).catch(() => {})
+        }
+        return respond(cachedResponse(cached.entry), cached.entry.body, true, { attempts: 0 })
+    }
+    if (cached) conditionalHeaders(cached.entry).forEach(([name, value]) => request.headers.set(name, value))
+
+    const limitKey = ({ rateLimit }: ClientRequest, url: URL) =>
+        rateLimit?.per === 'host' ? url.host : rateLimit?.per === 'path' ? `${url.host}${template}` : ''
+    const fetchLimited = options
+        .filter(opts => opts.concurrency !== undefined || opts.rateLimit !== undefined)
+        .reduceRight<(request: Request) => Promise<Response>>((next, opts) => {
+            const limit = limiters.get(opts) ?? limiters.set(opts, limiter(opts.concurrency, opts.rateLimit)).get(opts)!
+            return request => limit(limitKey(opts, new URL(request.url)), request.signal, () => next(request))
+        }, dispatch)
+
+    const failed = (status: number) => retryStatus.includes(status) || retryStatus.includes(~~(status / 100))
+    const fetchServer = async (request: Request, server: string, attemptSignal: AbortSignal, hedge: AbortSignal) => {
+        const url = request.url.startsWith(servers[0]) ? server + request.url.slice(servers[0].length) : request.url
+        const key = circuit?.key(new URL(url)) ?? ''
+        if (circuit && !circuit.allow(key)) return
+        try {
+            const signal = AbortSignal.any([attemptSignal, hedge])
+            const response = await fetchLimited(new Request(url, new Request(request, { signal })))
+            circuit?.record(key, !failed(response.status))
+            return response
+        } catch (error) {
+            if (!hedge.aborted && !request.signal.aborted) circuit?.record(key, false)
+            throw error
+        }
+    }
+    const start = urlStrategy === 'round-robin' && Array.isArray(baseUrl) ? rotate(baseUrl) % servers.length : 0
+    const order = [...servers.slice(start), ...servers.slice(0, start)]
+    const hedge = typeof urlStrategy === 'object' ? urlStrategy.hedge : Infinity
+    const fetchServers = (request: Request, signal: AbortSignal) =>
+        new Promise<Response | undefined>((resolve, reject) => {
+            const controllers = order.map(() => new AbortController())
+            let handle: ReturnType<typeof setTimeout> | undefined
+            let launched = 0
+            let settled = 0
+            let won = false
+            let outcome: { response?: Response; error?: unknown } = {}
+            const settle = (controller: AbortController, result: typeof outcome) => {
+                if (won) return
+                settled++
+                if (result.response && !failed(result.response.status)) {
+                    won = true
+                    clearTimeout(handle)
+                    controllers.forEach(other => other !== controller && other.abort())
+                    return resolve(result.response)
+                }
+                if ('response' in result || 'error' in result) outcome = result
+                if (!signal.aborted) launch()
+                if (settled < launched || (launched < order.length && !signal.aborted)) return
+                if ('error' in outcome) reject(outcome.error)
+                else resolve(outcome.response)
+            }
+            const launch = () => {
+                clearTimeout(handle)
+                if (launched === order.length) return
+                const index = launched++
+                const controller = controllers[index]
+                if (isFinite(hedge)) handle = setTimeout(launch, hedge)
+                const serverRequest = index < order.length - 1 ? request.clone() : request
+                fetchServer(serverRequest, order[index], signal, controller.signal)
+                    .then(response => settle(controller, response ? { response } : {}))
+                    .catch(error => settle(controller, { error }))
+            }
+            launch()
+        })
+
+    let replayable = true
+    if (retry && rawBody instanceof ReadableStream) [request, replayable] = await bufferBody(request, retryBodyLimit)
+    const retries = replayable ? retry : 0
+    const uploadSize = bodySize(body)
 
     let handle!: number
+    let delay: number | undefined = 0
+    let attempt = 0
+    let cause: unknown
     let response!: Response
     let requestSuccess = false
     let requestRetry = false
-    for (let attempt = 0; attempt <= retry; attempt++) {
+    for (; attempt <= retries; attempt++) {
         if (timeoutReset) (clearTimeout(handle), (handle = 0))
         await new Promise(resolve => {
-            setTimeout(resolve, attempt === 0 ? 0 : (retryDelay.at(attempt - 1) ?? retryDelay.at(-1)))
+            setTimeout(resolve, delay)
             signal.addEventListener('abort', resolve)
         })
-        handle ||= setTimeout(() => abortController.abort(), Math.min(timeout, 2 ** 31 - 1)) as unknown as number
+        const abort = () => abortController.abort(timeoutError())
+        handle ||= setTimeout(abort, Math.min(timeout, 2 ** 31 - 1)) as unknown as number
+        const attemptRequest = attempt < retries ? request.clone() : request
+        const attemptSignal = isFinite(attemptTimeout)
+            ? AbortSignal.any([signal, AbortSignal.timeout(attemptTimeout)])
+            : signal
+        const uploading = onUploadProgress && attemptRequest.body ? onUploadProgress : undefined
+        const attemptBody =
+            uploading && uploadSize === undefined
+                ? { body: progressStream(attemptRequest.body!, undefined, uploading), duplex: 'half' }
+                : {}
+        if (uploading && uploadSize !== undefined) uploading({ loaded: 0, total: uploadSize })
+        let served: Response | undefined
         try {
-            response = await globalThis.fetch(request)
+            served = await fetchServers(new Request(attemptRequest, attemptBody), attemptSignal)
         } catch (error) {
-            throw new ClientError(request, response, error, undefined, undefined)
+            const reason = signal.aborted ? undefined : attemptSignal.aborted ? 'timeout' : 'network'
+            if (!reason || !retryOn.includes(reason) || attempt === retries) {
+                clearTimeout(handle)
+                throw new ClientError(request, undefined, error, undefined, undefined, attempt + 1, error)
+            }
+            cause = error
+            delay = retryWait(undefined, attempt, retryDelay, retryAfter)
+            continue
+        }
+        if (!served) {
+            clearTimeout(handle)
+            throw new ClientError(request, undefined, 'circuit', undefined, undefined, attempt + 1, cause)
         }
+        if (uploading && uploadSize !== undefined) uploading({ loaded: uploadSize, total: uploadSize })
+        response = served
         const status = response.status
         const block = ~~(status / 100)
         requestSuccess = matchStatus.includes(status) || matchStatus.includes(block)
-        requestRetry = retryStatus.includes(status) || retryStatus.includes(block)
+        requestRetry = retryOn.includes('status') && failed(status)
         if (requestSuccess || !requestRetry) break
+        if ((delay = retryWait(response, attempt, retryDelay, retryAfter)) === undefined) break
     }
     clearTimeout(handle)
 
-    const type = response.headers.get('content-type')
-    const responseBody = !parse
-        ? response.body
-        : type?.startsWith('application/json')
-          ? await response.json()
-          : type?.startsWith('text/plain')
-            ? await response.text()
-            : type?.startsWith('multipart/form-data')
-              ? await response.formData()
-              : type?.startsWith('application/x-www-form-urlencoded')
-                ? new URLSearchParams(await response.text())
-                : await response.blob()
-
-    if (!requestSuccess) throw new ClientError(request, response, 'status', response.status, responseBody)
-    response = await options.reduce(
-        async ($, { interceptResponse }) => (await interceptResponse?.(await $)) ?? $,
-        Promise.resolve(response),
+    if (cached && response.status === 304) {
+        const entry = refreshEntry(cached.entry, response)
+        await store!.set(cacheKey, entry)
+        return respond(cachedResponse(entry), entry.body, true, { attempts: attempt + 1, cause })
+    }
+
+    const reconnect = async (lastEventId: string, wait: number | undefined, attempt: number) => {
+        if (signal.aborted || attempt >= retry) return
+        await new Promise(resolve => {
+            setTimeout(resolve, wait ?? retryWait(undefined, attempt, retryDelay, 'ignore'))
+            signal.addEventListener('abort', resolve)
+        })
+        const header = { 'last-event-id': lastEventId || undefined }
+        return (await send(template, method, [...options, { header, parse: false, retry: 0 }])).body as ReadableStream
+    }
+    const length = response.headers.get('content-encoding') ? null : response.headers.get('content-length')
+    const received =
+        onDownloadProgress && response.body
+            ? new Response(progressStream(response.body, length ? +length : undefined, onDownloadProgress), response)
+            : response
+    const parser =
+        typeof parse === 'string'
+            ? streamParsers[parse]
+            : (matchMediaType(parsers, response.headers.get('content-type') ?? '') ?? parsers['*/*'])
+    const parsedBody = !parse
+        ? received.body
+        : parser === streamParsers.sse
+          ? readEvents(received.body!, reconnect)
+          : await parser(received)
+
+    const validated = parse === true && !Object.values<unknown>(streamParsers).includes(parser)
+    const error = requestSuccess ? undefined : requestRetry && !replayable ? 'replay' : 'status'
+    const result = await respond(response, parsedBody, validated, { attempts: attempt + 1, cause, error })
+    const entry = cacheKey && validated && cacheEntry(response, parsedBody, request.headers, credentials)
+    if (entry) await store!.set(cacheKey, entry)
+    return result
+}
+
+/**
+ * Default key of deduplicated requests, from their method, URL, and headers.
+ *
+ * @param request Request to identify.
+ */
+const requestKey = (request: Request) => `${request.method} ${request.url} ${JSON.stringify([...request.headers])}`
+
+/**
+ * Options shaping the credentials or the response of a call, deduplicated calls are only shared if they are not set
+ * by the call, as they would otherwise get the response shaped by the options of the first caller.
+ */
+const sharedOptions = [
+    'auth',
+    'use',
+    'openapi',
+    'parsers',
+    'validate',
+    'status',
+    'interceptResponse',
+    'onDownloadProgress',
+] as const
+
+/**
+ * A deduplicated request in flight, with the number of callers waiting for it.
+ */
+type InflightCall = { promise: Promise<ClientResponse>; controller: AbortController; callers: number }
+
+/**
+ * In-flight deduplicated requests by key, one map for each client, by the first options object of the calls.
+ */
+const inflight = new WeakMap<ClientRequest, Map<string, InflightCall>>()
+
+/**
+ * Join the in-flight request identified by `key`, or start it if there is none.
+ *
+ * The shared request is aborted only when all callers abort their signals, callers that abort are rejected
+ * immediately while the others keep waiting.
+ *
+ * @param calls In-flight requests of the client.
+ * @param key Request key.
+ * @param request Request used for errors.
+ * @param signal Caller signal.
+ * @param start Start the shared request with a signal aborted when all callers abort.
+ */
+const join = (
+    calls: Map<string, InflightCall>,
+    key: string,
+    request: Request,
+    signal: AbortSignal,
+    start: (signal: AbortSignal) => Promise<ClientResponse>,
+) => {
+    if (signal.aborted) return Promise.reject(new ClientError(request, undefined, signal.reason))
+    let shared = calls.get(key)
+    if (!shared) {
+        const controller = new AbortController()
+        const promise = start(controller.signal).finally(() => calls.get(key) === shared && calls.delete(key))
+        calls.set(key, (shared = { promise, controller, callers: 0 }))
+    }
+    const { promise, controller } = shared
+    shared.callers++
+    return new Promise<ClientResponse>((resolve, reject) => {
+        const abort = () => {
+            if (--shared.callers === 0) controller.abort(signal.reason)
+            reject(new ClientError(request, undefined, signal.reason))
+        }
+        signal.addEventListener('abort', abort, { once: true })
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', abort))
+    })
+}
+
+/**
+ * Find the target of the first RFC 8288 link with relation type `rel` in a `Link` header.
+ *
+ * @param header Link header.
+ * @param rel Relation type.
+ */
+const linkTarget = (header: string, rel: string) =>
+    header
+        .split(/,\s*(?=<)/)
+        .map(link => link.match(/^\s*<([^>]*)>(.*)$/))
+        .find(match =>
+            match?.[2]
+                .match(/;\s*rel\s*=\s*"?([^";]*)/i)?.[1]
+                .toLowerCase()
+                .split(/\s+/)
+                .includes(rel),
+        )?.[1]
+
+/**
+ * Calls using each `url` server list, used by the `'round-robin'` strategy.
+ */
+const rotations = new WeakMap<object, number>()
+
+/**
+ * Count a call using a server list, returning the previous count.
+ *
+ * @param servers Server list.
+ */
+const rotate = (servers: object) => {
+    const count = rotations.get(servers) ?? 0
+    rotations.set(servers, count + 1)
+    return count
+}
+
+/**
+ * Resolved `next` links of the pages iterated by {@linkcode paginate}, by the options of their calls, sent in place of
+ * the URL of the path template, which still identifies the operation.
+ */
+const pageLinks = new WeakMap<ClientRequest, string>()
+
+/**
+ * Limiters of options declaring `concurrency` or `rateLimit`, shared by all calls using the same options object.
+ */
+const limiters = new WeakMap<ClientRequest, Limiter>()
+
+/**
+ * In-memory caches used by `httpCache: true`, one for each client, by the first options object of the calls.
+ */
+const caches = new WeakMap<ClientRequest, ClientCache>()
+
+/**
+ * Create a bodiless {@linkcode Response} carrying the status and headers of a cached entry.
+ *
+ * @param entry Cached entry.
+ */
+const cachedResponse = ({ status, statusText, headers }: CacheEntry) =>
+    new Response(null, { status, statusText, headers })
+
+/**
+ * Streaming response body parsers for each `parse` mode, see {@linkcode ClientRequest.parse}.
+ */
+const streamParsers = {
+    sse: (response: Response) => readEvents(response.body!),
+    ndjson: (response: Response) => readNdjson(response.body!),
+    lines: (response: Response) => readLines(response.body!),
+}
+
+/**
+ * Default response body parsers, see {@linkcode ClientRequest.parsers}.
+ */
+const defaultParsers: NonNullable<ClientRequest['parsers']> = {
+    'text/event-stream': streamParsers.sse,
+    'application/x-ndjson': streamParsers.ndjson,
+    'application/jsonl': streamParsers.ndjson,
+    'application/json': response => response.json(),
+    '*/*+json': response => response.json(),
+    'text/plain': response => response.text(),
+    'application/xml': response => response.text(),
+    'text/xml': response => response.text(),
+    '*/*+xml': response => response.text(),
+    'multipart/form-data': response => response.formData(),
+    'application/x-www-form-urlencoded': async response => new URLSearchParams(await response.text()),
+    '*/*': response => response.blob(),
+}
+
+/**
+ * Default request body serializers, see {@linkcode ClientRequest.serializers}.
+ */
+const defaultSerializers: NonNullable<ClientRequest['serializers']> = {
+    'application/json': body => JSON.stringify(body),
+    '*/*+json': body => JSON.stringify(body),
+    'text/plain': body => textValue(body),
+    'application/x-www-form-urlencoded': body =>
+        new URLSearchParams(formEntries(body).map(([k, v]) => [k, textValue(v)])),
+    'multipart/form-data': body =>
+        formEntries(body).reduce(
+            (form, [key, value]) => (form.append(key, value instanceof Blob ? value : textValue(value)), form),
+            new FormData(),
+        ),
+}
+
+/**
+ * Convert a body or form value into text, objects and arrays are serialized as JSON.
+ *
+ * @param value Value to convert.
+ */
+const textValue = (value: unknown) =>
+    value && typeof value === 'object' && jsonPrototypes.includes(Object.getPrototypeOf(value))
+        ? JSON.stringify(value)
+        : `${value}`
+
+/**
+ * Flatten an object into form entries, array values are repeated and nullish values are skipped.
+ *
+ * @param body Object to flatten.
+ */
+const formEntries = (body: unknown) =>
+    Object.entries(body ?? {}).flatMap(([key, value]) =>
+        [value]
+            .flat()
+            .filter(v => v != undefined)
+            .map(v => [key, v] as [string, unknown]),
     )
 
-    return { request, response, status: response.status, body: responseBody } as ClientResponse
+/**
+ * Find the entry of a media type registry that best matches a content-type.
+ *
+ * Patterns may use `*` as wildcard for the type or subtype, such as `text/*` or `application/*+json`. When multiple
+ * patterns match, the most specific one, with the most non-wildcard characters, is selected.
+ *
+ * @param registry Registry keyed by media type pattern.
+ * @param contentType Content-type to match, parameters are ignored.
+ */
+const matchMediaType = <T>(registry: { [_ in string]?: T }, contentType: string) => {
+    const type = contentType.split(';')[0].trim().toLowerCase()
+    const specificity = (pattern: string) => pattern.replace(/\*/g, '').length
+    const pattern = Object.keys(registry)
+        .filter(pattern => mediaTypeRegExp(pattern).test(type))
+        .sort((a, b) => specificity(b) - specificity(a))[0]
+    return type && pattern !== undefined ? registry[pattern] : undefined
 }
 
+/**
+ * Convert a media type pattern into a regular expression, `*` matches any characters except `/`.
+ *
+ * @param pattern Media type pattern.
+ */
+const mediaTypeRegExp = (pattern: string) =>
+    new RegExp(`^${pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*')}$`, 'i')
+
 /**
  * List of prototypes whose instances are serialized as JSON by default.
  */
 const jsonPrototypes = [Object.prototype, Array.prototype, String.prototype, Number.prototype, Boolean.prototype, null]
 
+/**
+ * Compute the delay before the next retry attempt.
+ *
+ * Unless `retryAfter` is `'ignore'`, `Retry-After` (seconds or HTTP-date), `RateLimit-Reset` and `X-RateLimit-Reset`
+ * (seconds or epoch seconds) response headers take precedence over `retryDelay`.
+ *
+ * @param response Failed response, `undefined` for network errors and timeouts.
+ * @param attempt Index of the failed attempt.
+ * @param retryDelay Retry delay list or backoff settings.
+ * @param retryAfter Retry-After handling.
+ * @returns Delay in milliseconds, or `undefined` if the requested delay exceeds `retryAfter.max`.
+ */
+const retryWait = (
+    response: Response | undefined,
+    attempt: number,
+    retryDelay: NonNullable<ClientRequest['retryDelay']>,
+    retryAfter: NonNullable<ClientRequest['retryAfter']>,
+) => {
+    const after = response?.headers.get('retry-after')
+    const reset = response?.headers.get('ratelimit-reset') ?? response?.headers.get('x-ratelimit-reset')
+    const wait =
+        retryAfter === 'ignore'
+            ? NaN
+            : after
+              ? /^\d+$/.test(after)
+                  ? +after * 1000
+                  : Date.parse(after) - Date.now()
+              : reset && /^\d+$/.test(reset)
+                ? +reset * 1000 - (+reset > 1e9 ? Date.now() : 0)
+                : NaN
+    const limit = typeof retryAfter === 'object' ? retryAfter.max : Infinity
+    if (!isNaN(wait)) return wait <= limit ? Math.max(wait, 0) : undefined
+    if (Array.isArray(retryDelay)) return retryDelay.at(attempt) ?? retryDelay.at(-1)!
+    const { base, factor = 2, max = Infinity, jitter = true } = retryDelay
+    return Math.min(base * factor ** attempt, max) * (jitter ? Math.random() : 1)
+}
+
+/**
+ * Create the abort reason used by request timeouts, matching {@linkcode AbortSignal.timeout}.
+ */
+const timeoutError = () => new DOMException('The operation timed out.', 'TimeoutError')
+
+/**
+ * Pipe a byte stream through a transform reporting the amount of bytes read.
+ *
+ * @param stream Byte stream to report.
+ * @param total Total amount of bytes, if known.
+ * @param onProgress Progress callback.
+ */
+const progressStream = (
+    stream: ReadableStream<Uint8Array>,
+    total: number | undefined,
+    onProgress: (progress: ClientProgress) => void,
+) => {
+    let loaded = 0
+    const transform = (chunk: Uint8Array, controller: TransformStreamDefaultController<Uint8Array>) => {
+        controller.enqueue(chunk)
+        onProgress({ loaded: (loaded += chunk.byteLength), total })
+    }
+    return stream.pipeThrough(new TransformStream({ transform }))
+}
+
+/**
+ * Size in bytes of a request body, if it can be known before reading it.
+ *
+ * @param body Request body.
+ */
+const bodySize = (body: BodyInit | null | undefined) =>
+    typeof body === 'string'
+        ? new TextEncoder().encode(body).byteLength
+        : body instanceof Blob
+          ? body.size
+          : body instanceof ArrayBuffer || ArrayBuffer.isView(body)
+            ? body.byteLength
+            : body instanceof URLSearchParams
+              ? `${body}`.length
+              : undefined
+
+/**
+ * Buffer a streamed request body so the request can be cloned and replayed across retries.
+ *
+ * If the body exceeds `limit` bytes, buffering stops and the returned request streams the chunks read so far
+ * followed by the rest of the body, flagged as non-replayable.
+ *
+ * @param request Request with a streamed body.
+ * @param limit Maximum body size in bytes to buffer.
+ */
+const bufferBody = async (request: Request, limit: number): Promise<[request: Request, replayable: boolean]> => {
+    const reader = request.body!.getReader()
+    const chunks: Uint8Array<ArrayBuffer>[] = []
+    let size = 0
+    for (let read = await reader.read(); !read.done; read = await reader.read()) {
+        chunks.push(read.value)
+        if ((size += read.value.byteLength) <= limit) continue
+        const stream = new ReadableStream<Uint8Array>({
+            pull: async controller => {
+                const chunk = chunks.shift() ?? (await reader.read()).value
+                if (chunk) controller.enqueue(chunk)
+                else controller.close()
+            },
+            cancel: reason => reader.cancel(reason),
+        })
+        return [new Request(request, { body: stream, duplex: 'half' } as RequestInit), false]
+    }
+    return [new Request(request, { body: new Blob(chunks) }), true]
+}
+
 /**
  * Axios-like URL resolver for the client's `url` option.
  *
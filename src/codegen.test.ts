@@ -0,0 +1,167 @@
+import { expect, test } from 'bun:test'
+import { bundleDocument, specModule, specName, stripKeys } from './codegen'
+
+const document = {
+    openapi: '3.1.0',
+    info: { title: "Ana's API", description: 'Users' },
+    paths: {
+        '/users': {
+            get: {
+                description: 'List users',
+                responses: {
+                    '200': {
+                        description: 'OK',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'array',
+                                    items: {
+                                        type: 'object',
+                                        required: ['id'],
+                                        properties: { id: { type: 'integer' }, description: { type: 'string' } },
+                                    },
+                                },
+                                example: [{ id: 1 }],
+                            },
+                        },
+                    },
+                },
+            },
+        },
+    },
+}
+
+test('spec module', () => {
+    const stripped = stripKeys(document, ['description', 'example'])
+    expect(stripped).toEqual({
+        openapi: '3.1.0',
+        info: { title: "Ana's API" },
+        paths: {
+            '/users': {
+                get: {
+                    responses: {
+                        '200': {
+                            content: {
+                                'application/json': {
+                                    schema: {
+                                        type: 'array',
+                                        items: {
+                                            type: 'object',
+                                            required: ['id'],
+                                            properties: { id: { type: 'integer' }, description: { type: 'string' } },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+    })
+
+    const module = specModule({ info: document.info, tags: [], empty: {} }, { name: 'ApiSpec', value: true })
+    expect(module).toBe(
+        [
+            '/**',
+            ' * Generated by fetch-tools, do not edit.',
+            ' */',
+            'export type ApiSpec = {',
+            '    info: {',
+            "        title: 'Ana\\'s API'",
+            "        description: 'Users'",
+            '    }',
+            '    tags: []',
+            '    empty: {}',
+            '}',
+            '',
+            'export const apiSpec = {',
+            '    info: {',
+            "        title: 'Ana\\'s API',",
+            "        description: 'Users',",
+            '    },',
+            '    tags: [],',
+            '    empty: {},',
+            '} as const',
+            '',
+        ].join('\n'),
+    )
+    const value = specModule(stripped, { name: 'ApiSpec', value: true }).split('export const apiSpec = ')[1]
+    expect(new Function(`return ${value.replace(/ as const\n$/, '')}`)()).toEqual(stripped)
+})
+
+test('bundle document', () => {
+    const files: { [_ in string]: unknown } = {
+        '/api/paths/users.yaml': {
+            get: {
+                parameters: [{ $ref: '../common.yaml#/components/parameters/Limit' }],
+                responses: { '200': { content: { 'application/json': { schema: { $ref: '../user.yaml' } } } } },
+            },
+        },
+        '/api/common.yaml': {
+            components: { parameters: { Limit: { name: 'limit', in: 'query', schema: { type: 'integer' } } } },
+        },
+        '/api/user.yaml': {
+            type: 'object',
+            properties: {
+                friends: { type: 'array', items: { $ref: '#' } },
+                error: { $ref: 'openapi.yaml#/components/schemas/Error' },
+            },
+        },
+    }
+    const loaded: string[] = []
+    const load = (url: URL) => (loaded.push(url.pathname), files[url.pathname])
+    const document = {
+        paths: {
+            '/users': { $ref: './paths/users.yaml' },
+            '/me': { get: { responses: { '200': { $ref: '#/components/responses/Me' } } } },
+        },
+        components: {
+            schemas: { user: { type: 'string' }, Error: { type: 'object' } },
+            responses: { Me: { content: { 'application/json': { schema: { $ref: 'https://example.com/me.json' } } } } },
+        },
+    }
+    expect(bundleDocument(document, 'file:///api/openapi.yaml', load)).toEqual({
+        paths: {
+            '/users': { $ref: '#/components/pathItems/users' },
+            '/me': { get: { responses: { '200': { $ref: '#/components/responses/Me' } } } },
+        },
+        components: {
+            schemas: {
+                user: { type: 'string' },
+                Error: { type: 'object' },
+                user2: {
+                    type: 'object',
+                    properties: {
+                        friends: { type: 'array', items: { $ref: '#/components/schemas/user2' } },
+                        error: { $ref: '#/components/schemas/Error' },
+                    },
+                },
+            },
+            responses: { Me: { content: { 'application/json': { schema: { $ref: 'https://example.com/me.json' } } } } },
+            pathItems: {
+                users: {
+                    get: {
+                        parameters: [{ $ref: '#/components/parameters/Limit' }],
+                        responses: {
+                            '200': {
+                                content: { 'application/json': { schema: { $ref: '#/components/schemas/user2' } } },
+                            },
+                        },
+                    },
+                },
+            },
+            parameters: { Limit: { name: 'limit', in: 'query', schema: { type: 'integer' } } },
+        },
+    })
+    expect(loaded).toEqual(['/api/paths/users.yaml', '/api/common.yaml', '/api/user.yaml'])
+    expect(() => bundleDocument({ $ref: 'user.yaml#/missing' }, 'file:///api/openapi.yaml', load)).toThrow(
+        "Unresolved $ref 'user.yaml#/missing' in /api/openapi.yaml",
+    )
+})
+
+test('spec name', () => {
+    expect(specName('specs/my-api.openapi.yaml')).toBe('MyApiSpec')
+    expect(specName('C:\\specs\\petstore.json')).toBe('PetstoreSpec')
+    expect(specName('2fa_service.yml')).toBe('_2faServiceSpec')
+})
@@ -0,0 +1,231 @@
+import { get, unescapePointer } from './openapi'
+import { parseYaml } from './yaml'
+
+/**
+ * Parse an OpenAPI document, as JSON if `filename` has a `.json` extension, or as YAML otherwise.
+ *
+ * @param text Document text.
+ * @param filename Document file name.
+ */
+export const parseDocument = (text: string, filename: string): unknown =>
+    /\.json$/i.test(filename) ? JSON.parse(text) : parseYaml(text)
+
+/**
+ * Remove keywords such as `description` or `example` from an OpenAPI document, to keep its type small.
+ *
+ * Keys of maps whose keys are names, such as schema `properties` or `paths`, are kept, so a property named
+ * `description` is not removed.
+ *
+ * @param document OpenAPI document.
+ * @param keys Keywords to remove.
+ */
+export const stripKeys = (document: unknown, keys: string[]): unknown => {
+    const strip = (value: unknown, named: boolean): unknown =>
+        Array.isArray(value)
+            ? value.map(item => strip(item, false))
+            : value && typeof value === 'object'
+              ? Object.fromEntries(
+                    Object.entries(value)
+                        .filter(([key]) => named || !keys.includes(key))
+                        .map(([key, item]) => [key, strip(item, !named && namedMaps.includes(key))]),
+                )
+              : value
+    return strip(document, false)
+}
+
+/**
+ * Bundle the external `$ref`s of an OpenAPI document into a self-contained document, because `FromOpenApiSpec` only
+ * resolves local `#/...` references.
+ *
+ * Referenced documents are loaded once, and each referenced value is moved into the `components` section matching
+ * where it is used, such as `schemas` or `parameters`, named after its pointer or file name. Its own references,
+ * local or external, are bundled the same way, and references back into the root document become local again.
+ * References with other protocols, such as `https:` ones in a `file:` document, are kept.
+ *
+ * @param document OpenAPI document.
+ * @param url Document URL, to which references are relative.
+ * @param load Load and parse a referenced document.
+ */
+export const bundleDocument = (document: unknown, url: URL | string, load: (url: URL) => unknown): unknown => {
+    const root = new URL(url)
+    root.hash = ''
+    const documents = new Map<string, unknown>([[root.href, document]])
+    const references = new Map<string, string>()
+    const components: { [_ in string]: { [_ in string]: unknown } } = {}
+
+    const rewrite = (value: unknown, base: URL, section: string, map?: string): unknown =>
+        Array.isArray(value)
+            ? value.map(item => rewrite(item, base, section))
+            : value && typeof value === 'object'
+              ? Object.fromEntries(
+                    Object.entries(value).map(([key, item]) => [
+                        key,
+                        key === '$ref' && !map && typeof item === 'string'
+                            ? reference(item, base, section)
+                            : map
+                              ? rewrite(item, base, sections[map] ?? 'schemas')
+                              : rewrite(
+                                    item,
+                                    base,
+                                    key === 'parameters' ? key : key === 'requestBody' ? 'requestBodies' : 'schemas',
+                                    namedMaps.includes(key) ? key : undefined,
+                                ),
+                    ]),
+                )
+              : value
+
+    const reference = (ref: string, base: URL, section: string) => {
+        const target = new URL(ref, base)
+        const hash = target.hash || '#'
+        target.hash = ''
+        if (target.protocol !== root.protocol) return ref
+        if (target.href === root.href) return base.href === root.href ? ref : hash
+        const id = `${target.href}${hash}`
+        if (references.has(id)) return references.get(id)
+        if (!documents.has(target.href)) documents.set(target.href, load(target))
+        const keys = decodeURIComponent(hash.slice(1)).split('/').slice(1).map(unescapePointer)
+        const value = get(documents.get(target.href), ...keys)
+        if (value === undefined) throw new Error(`Unresolved $ref '${ref}' in ${base.pathname}`)
+        const kind = keys.length === 3 && keys[0] === 'components' ? keys[1] : section
+        const file = decodeURIComponent(target.pathname.replace(/^.*\//, '').split('.')[0])
+        const label = `${keys.at(-1) ?? file}`.replace(/[^\w.-]/g, '_')
+        const existing = get(document, 'components', kind) ?? {}
+        const names = (components[kind] ??= {})
+        let name = label
+        for (let i = 2; Object.hasOwn(names, name) || Object.hasOwn(existing, name); i++) name = `${label}${i}`
+        const local = `#/components/${kind}/${name}`
+        references.set(id, local)
+        names[name] = null // reserve the name while recursive references are rewritten
+        names[name] = rewrite(value, target, kind)
+        return local
+    }
+
+    const bundled = rewrite(document, root, 'schemas') as { components?: { [_ in string]: object } }
+    if (!Object.keys(components).length) return bundled
+    const merged = Object.entries(components).map(([kind, values]) => [
+        kind,
+        { ...bundled.components?.[kind], ...values },
+    ])
+    return { ...bundled, components: { ...bundled.components, ...Object.fromEntries(merged) } }
+}
+
+/**
+ * Components section of the values of each named map, where bundled references to them are moved.
+ */
+const sections: { [_ in string]?: string } = {
+    paths: 'pathItems',
+    webhooks: 'pathItems',
+    pathItems: 'pathItems',
+    schemas: 'schemas',
+    responses: 'responses',
+    parameters: 'parameters',
+    examples: 'examples',
+    requestBodies: 'requestBodies',
+    headers: 'headers',
+    securitySchemes: 'securitySchemes',
+    links: 'links',
+    callbacks: 'callbacks',
+}
+
+/**
+ * OpenAPI and JSON Schema keywords whose values are maps keyed by names instead of keywords.
+ */
+const namedMaps = [
+    'paths',
+    'webhooks',
+    'schemas',
+    'responses',
+    'parameters',
+    'examples',
+    'requestBodies',
+    'headers',
+    'securitySchemes',
+    'links',
+    'callbacks',
+    'pathItems',
+    'content',
+    'encoding',
+    'variables',
+    'properties',
+    'patternProperties',
+    'dependentSchemas',
+    '$defs',
+    'definitions',
+    'mapping',
+]
+
+/**
+ * Generate the TypeScript module of an OpenAPI document, exporting its type to be used with `FromOpenApiSpec`, and
+ * optionally the document itself as a constant, to be used with runtime utilities such as `openApiValidator`.
+ *
+ * @param document OpenAPI document.
+ * @param options.name Name of the exported type, the constant is named in camel case.
+ * @param options.source Source file name, mentioned in the module header.
+ * @param options.value Export the document as a constant too.
+ */
+export const specModule = (document: unknown, { name, source, value = false }: SpecModuleOptions) => {
+    const header = `/**\n * Generated${source ? ` from ${source}` : ''} by fetch-tools, do not edit.\n */\n`
+    const type = `export type ${name} = ${literal(document, '', true)}\n`
+    const constant = `${name[0].toLowerCase()}${name.slice(1)}`
+    return `${header}${type}${value ? `\nexport const ${constant} = ${literal(document, '', false)} as const\n` : ''}`
+}
+
+/**
+ * Options of {@linkcode specModule}.
+ */
+export type SpecModuleOptions = { name: string; source?: string; value?: boolean }
+
+/**
+ * Name of the type exported by the module of a document file, such as `MyApiSpec` for `my-api.openapi.yaml`.
+ *
+ * @param filename Document file name.
+ */
+export const specName = (filename: string) => {
+    const base = filename.replace(/^.*[\\/]/, '').split('.')[0]
+    const pascal = base.replace(/(?:^|[^A-Za-z0-9]+)([A-Za-z0-9])/g, (_, char: string) => char.toUpperCase())
+    return `${pascal.replace(/^(?=\d)/, '_') || 'Api'}Spec`
+}
+
+/**
+ * Write a JSON value as a TypeScript type or value literal, with 4 spaces indentation.
+ *
+ * Arrays become tuples in types, so `required` and `enum` keep their literal members.
+ *
+ * @param value JSON value.
+ * @param indent Current indentation.
+ * @param type Write a type literal instead of a value literal.
+ */
+const literal = (value: unknown, indent: string, type: boolean): string => {
+    const inner = `${indent}    `
+    if (Array.isArray(value)) {
+        if (value.every(item => !item || typeof item !== 'object'))
+            return `[${value.map(item => literal(item, inner, type)).join(', ')}]`
+        return `[\n${value.map(item => `${inner}${literal(item, inner, type)},`).join('\n')}\n${indent}]`
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.entries(value)
+        if (!entries.length) return '{}'
+        const separator = type ? '' : ','
+        const lines = entries.map(
+            ([key, item]) => `${inner}${property(key)}: ${literal(item, inner, type)}${separator}`,
+        )
+        return `{\n${lines.join('\n')}\n${indent}}`
+    }
+    if (typeof value === 'string') return quote(value)
+    if (typeof value === 'number' && !isFinite(value)) return type ? 'number' : `${value}`
+    return JSON.stringify(value)
+}
+
+/**
+ * Write an object key, quoted if it is not a valid identifier.
+ *
+ * @param key Object key.
+ */
+const property = (key: string) => (/^[A-Za-z_$][\w$]*$/.test(key) ? key : quote(key))
+
+/**
+ * Write a single-quoted string literal.
+ *
+ * @param text String to quote.
+ */
+const quote = (text: string) => `'${JSON.stringify(text).slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'")}'`
@@ -1,3 +1,9 @@
+export * from './auth'
+export { memoryCache, type CacheEntry, type ClientCache } from './cache'
+export * from './circuit'
 export * from './client'
+export { openApiValidator, type OpenApiValidator } from './openapi'
+export * from './stream'
 export * from './types/client'
 export * from './types/openapi'
+export * from './types/standard'
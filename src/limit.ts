@@ -0,0 +1,78 @@
+/**
+ * Run a task once a concurrency slot and a rate limit token for `key` are available.
+ *
+ * Waiting tasks are rejected with the signal reason if `signal` aborts.
+ */
+export type Limiter = <T>(key: string, signal: AbortSignal, task: () => Promise<T>) => Promise<T>
+
+/**
+ * Create a {@linkcode Limiter} allowing up to `concurrency` tasks at once, and up to `rateLimit.limit` tasks per
+ * `rateLimit.interval` milliseconds for each key, using a token bucket refilled continuously.
+ *
+ * Tasks waiting for a concurrency slot run in order.
+ *
+ * @param concurrency Maximum number of concurrent tasks.
+ * @param rateLimit Token bucket size and refill interval.
+ */
+export const limiter = (concurrency = Infinity, rateLimit?: { limit: number; interval: number }): Limiter => {
+    let active = 0
+    const queue = new Set<() => void>()
+    const buckets = new Map<string, { tokens: number; time: number }>()
+
+    const acquire = (signal: AbortSignal) =>
+        new Promise<void>((resolve, reject) => {
+            if (active < concurrency) return (active++, resolve())
+            const next = () => {
+                queue.delete(next)
+                signal.removeEventListener('abort', abort)
+                active++
+                resolve()
+            }
+            const abort = () => (queue.delete(next), reject(signal.reason))
+            queue.add(next)
+            signal.addEventListener('abort', abort, { once: true })
+        })
+
+    const release = () => {
+        active--
+        queue.values().next().value?.()
+    }
+
+    const take = async (key: string, signal: AbortSignal) => {
+        if (!rateLimit) return
+        const { limit, interval } = rateLimit
+        while (true) {
+            const now = Date.now()
+            const bucket = buckets.get(key) ?? { tokens: limit, time: now }
+            bucket.tokens = Math.min(limit, bucket.tokens + ((now - bucket.time) * limit) / interval)
+            bucket.time = now
+            buckets.set(key, bucket)
+            if (bucket.tokens >= 1) return void bucket.tokens--
+            await sleep(((1 - bucket.tokens) * interval) / limit, signal)
+        }
+    }
+
+    return async (key, signal, task) => {
+        signal.throwIfAborted()
+        await acquire(signal)
+        try {
+            await take(key, signal)
+            return await task()
+        } finally {
+            release()
+        }
+    }
+}
+
+/**
+ * Wait for `ms` milliseconds, rejecting with the signal reason if `signal` aborts.
+ *
+ * @param ms Time to wait in milliseconds.
+ * @param signal Abort signal.
+ */
+const sleep = (ms: number, signal: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+        const abort = () => (clearTimeout(handle), reject(signal.reason))
+        const handle = setTimeout(() => (signal.removeEventListener('abort', abort), resolve()), ms)
+        signal.addEventListener('abort', abort, { once: true })
+    })
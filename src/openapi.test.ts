@@ -0,0 +1,113 @@
+import { expect, test } from 'bun:test'
+import { openApiValidator } from './openapi'
+
+const document = {
+    openapi: '3.1.0',
+    paths: {
+        '/users/{id}': {
+            parameters: [{ $ref: '#/components/parameters/id' }],
+            get: {
+                parameters: [
+                    { name: 'fields', in: 'query', schema: { type: 'array', items: { enum: ['name', 'tags'] } } },
+                    { name: 'X-Version', in: 'header', required: true, schema: { type: 'integer', minimum: 1 } },
+                ],
+                responses: {
+                    '200': {
+                        headers: { 'X-Version': { schema: { type: 'integer' } }, ETag: { schema: { type: 'string' } } },
+                        content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } },
+                    },
+                    '4XX': { content: { 'application/problem+json': { schema: { type: 'object' } } } },
+                },
+            },
+            put: {
+                requestBody: {
+                    required: true,
+                    content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } },
+                },
+                responses: { '204': {} },
+            },
+        },
+    },
+    components: {
+        parameters: { id: { name: 'id', in: 'path', schema: { type: 'integer' } } },
+        schemas: {
+            User: {
+                type: 'object',
+                required: ['name'],
+                properties: {
+                    name: { type: 'string', minLength: 1 },
+                    nickname: { type: ['string', 'null'] },
+                    role: { oneOf: [{ const: 'admin' }, { const: 'user' }] },
+                    tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+                    'a/b': { anyOf: [{ type: 'number' }, { type: 'boolean' }] },
+                },
+                additionalProperties: false,
+            },
+        },
+    },
+}
+
+const validator = openApiValidator(document)
+const request = (parameters: object) => ({
+    path: {},
+    query: {},
+    header: {},
+    cookie: {},
+    body: undefined,
+    contentType: '',
+    ...parameters,
+})
+const messages = (issues: { message: string }[]) => issues.map(({ message }) => message)
+
+test('request parameters', () => {
+    const valid = request({ path: { id: 1 }, query: { fields: ['name'] }, header: { 'x-version': '2' } })
+    expect(validator.request('/users/{id}', 'GET', valid)).toEqual([])
+    const invalid = request({ path: { id: 'a' }, query: { fields: ['age'] }, header: { 'X-Version': '0' } })
+    expect(messages(validator.request('/users/{id}', 'GET', invalid))).toEqual([
+        '/path/id must be integer',
+        '/query/fields/0 must be one of ["name","tags"]',
+        '/header/X-Version must be >= 1',
+    ])
+    expect(messages(validator.request('/users/{id}', 'GET', request({})))).toEqual([
+        '/path/id is required',
+        '/header/X-Version is required',
+    ])
+    expect(validator.request('/unknown', 'GET', request({}))).toEqual([])
+})
+
+test('request and response bodies', () => {
+    const body = { name: 'Ana', nickname: null, role: 'admin', tags: ['a'], 'a/b': true }
+    const put = (body: unknown) =>
+        validator.request('/users/{id}', 'PUT', request({ path: { id: 1 }, body, contentType: 'application/json' }))
+    expect(put(body)).toEqual([])
+    expect(messages(put(undefined))).toEqual(['/body is required'])
+    expect(put({ name: '', role: 'guest', tags: ['a', 'b', 1], 'a/b': 'x', extra: 1 })).toEqual([
+        { message: '/body/name must have at least 1 characters', path: ['body', 'name'] },
+        { message: '/body/role must match exactly one schema of oneOf', path: ['body', 'role'] },
+        { message: '/body/tags must have at most 2 items', path: ['body', 'tags'] },
+        { message: '/body/tags/2 must be string', path: ['body', 'tags', '2'] },
+        { message: '/body/a~1b must match a schema of anyOf', path: ['body', 'a/b'] },
+        { message: '/body/extra is not allowed', path: ['body', 'extra'] },
+    ])
+
+    expect(validator.response('/users/{id}', 'get', 200, 'application/json', body)).toEqual([])
+    expect(messages(validator.response('/users/{id}', 'get', 200, 'application/json', {}))).toEqual([
+        '/body/name is required',
+    ])
+    expect(messages(validator.response('/users/{id}', 'get', 404, 'application/problem+json', []))).toEqual([
+        '/body must be object',
+    ])
+    expect(validator.response('/users/{id}', 'get', 200, 'text/plain', 'text')).toEqual([])
+})
+
+test('response headers', () => {
+    const headers = new Headers({ 'x-version': '2', etag: '"1"', 'x-other': '3' })
+    expect(validator.headers('/users/{id}', 'get', 200, headers)).toEqual({ 'X-Version': 2, ETag: '"1"' })
+    expect(validator.headers('/users/{id}', 'get', 404, headers)).toEqual({})
+})
+
+test('response media types', () => {
+    expect(validator.accept('/users/{id}', 'GET')).toEqual(['application/json', 'application/problem+json'])
+    expect(validator.accept('/users/{id}', 'put')).toEqual([])
+    expect(validator.accept('/unknown', 'get')).toEqual([])
+})
@@ -0,0 +1,386 @@
+import type { StandardIssue } from './types/standard'
+
+/**
+ * Runtime validator of requests and responses against an OpenAPI document, see {@linkcode openApiValidator}.
+ *
+ * Issues carry the location of the invalid value as `path`, and its JSON pointer (RFC 6901) in `message`, such as
+ * `/query/limit must be integer` or `/body/items/0/id is required`.
+ */
+export type OpenApiValidator = {
+    /**
+     * Validate the parameters and body of a request.
+     *
+     * @param path Path template of the operation, such as `/users/{id}`.
+     * @param method Operation method.
+     * @param request Request parameters by location and body, header names are case-insensitive.
+     */
+    request: (
+        path: string,
+        method: string,
+        request: {
+            path: { [_ in string]: unknown }
+            query: { [_ in string]: unknown }
+            header: { [_ in string]: unknown }
+            cookie: { [_ in string]: unknown }
+            body: unknown
+            contentType: string
+        },
+    ) => StandardIssue[]
+
+    /**
+     * Validate the body of a response.
+     *
+     * @param path Path template of the operation, such as `/users/{id}`.
+     * @param method Operation method.
+     * @param status Response status code.
+     * @param contentType Response content-type.
+     * @param body Parsed response body.
+     */
+    response: (path: string, method: string, status: number, contentType: string, body: unknown) => StandardIssue[]
+
+    /**
+     * Parse the headers declared for a response status by their schemas, keyed by their declared names.
+     * Array and object headers are split with the `simple` style.
+     *
+     * @param path Path template of the operation, such as `/users/{id}`.
+     * @param method Operation method.
+     * @param status Response status code.
+     * @param headers Response headers.
+     */
+    headers: (path: string, method: string, status: number, headers: Headers) => { [_ in string]: unknown }
+
+    /**
+     * List the media types declared by the responses of an operation, used as the default `Accept` header.
+     *
+     * @param path Path template of the operation, such as `/users/{id}`.
+     * @param method Operation method.
+     */
+    accept: (path: string, method: string) => string[]
+}
+
+/**
+ * Create an {@linkcode OpenApiValidator} from an OpenAPI document, the same document used with `FromOpenApiSpec`.
+ *
+ * Local `$ref`s are resolved, other references are not validated. Parameter values given as strings, such as
+ * headers and cookies, are converted to the number or boolean types of their schemas before validation. Only JSON
+ * bodies (`application/json` and `+json` media types) are validated.
+ *
+ * Schemas support the features of `ParseSchema`: `type` (including type arrays), `nullable`, `const`, `enum`,
+ * `allOf`, `anyOf`, `oneOf`, object `properties`, `required` and `additionalProperties`, and array `items` and
+ * `prefixItems`. Common assertions (`not`, `minimum`, `maximum`, `minLength`, `maxLength`, `pattern`, `minItems`
+ * and `maxItems`) are also checked.
+ *
+ * @param document OpenAPI document.
+ */
+export const openApiValidator = (document: unknown): OpenApiValidator => {
+    const operation = (path: string, method: string) => {
+        const item = resolve(document, get(document, 'paths', path))
+        const raw = get(item, method.toLowerCase())
+        if (!raw) return
+        const parameters = new Map<string, OpenApiParameter>()
+        for (const parameter of [get(item, 'parameters') ?? [], get(raw, 'parameters') ?? []].flat()) {
+            const resolved = resolve(document, parameter) as OpenApiParameter
+            parameters.set(`${resolved.in}:${resolved.name}`, resolved)
+        }
+        return { parameters: [...parameters.values()], body: resolve(document, get(raw, 'requestBody')), raw }
+    }
+
+    const response = (path: string, method: string, status: number) => {
+        const responses = get(operation(path, method)?.raw, 'responses')
+        const key = [`${status}`, `${~~(status / 100)}XX`, 'default'].find(key => get(responses, key) !== undefined)
+        return resolve(document, key && get(responses, key))
+    }
+
+    return {
+        request: (path, method, request) => {
+            const op = operation(path, method)
+            if (!op) return []
+            const header = Object.fromEntries(Object.entries(request.header).map(([k, v]) => [k.toLowerCase(), v]))
+            const sources = { ...request, header, querystring: request.query }
+            const issues = op.parameters.flatMap(parameter => {
+                const location = parameter.in as 'path' | 'query' | 'querystring' | 'header' | 'cookie'
+                const source: { [_ in string]: unknown } = sources[location] ?? {}
+                const name = location === 'header' ? `${parameter.name}`.toLowerCase() : `${parameter.name}`
+                const schema = resolve(document, parameter.schema)
+                const properties =
+                    parameter.explode === true ? (get(schema, 'properties') as OpenApiObject | undefined) : undefined
+                const value = properties
+                    ? Object.fromEntries(
+                          Object.keys(properties).flatMap(key =>
+                              Object.hasOwn(source, key) ? [[key, source[key]]] : [],
+                          ),
+                      )
+                    : source[name]
+                const pointer = `/${location}/${escapePointer(`${parameter.name}`)}`
+                if (value === undefined)
+                    return parameter.required || location === 'path' ? [issue(pointer, 'is required')] : []
+                return check(document, schema, coerce(document, schema, value), pointer)
+            })
+            const content = get(op.body, 'content')
+            if (request.body === undefined)
+                return get(op.body, 'required') ? [...issues, issue('/body', 'is required')] : issues
+            const media = content && mediaType(content, request.contentType)
+            return media ? [...issues, ...check(document, get(media, 'schema'), request.body, '/body')] : issues
+        },
+        response: (path, method, status, contentType, body) => {
+            const media = mediaType(get(response(path, method, status), 'content'), contentType)
+            return media ? check(document, get(media, 'schema'), body, '/body') : []
+        },
+        headers: (path, method, status, headers) => {
+            const declared = (get(response(path, method, status), 'headers') ?? {}) as OpenApiObject
+            return Object.fromEntries(
+                Object.entries(declared).flatMap(([name, raw]) => {
+                    const value = headers.get(name)
+                    if (value === null || name.toLowerCase() === 'content-type') return []
+                    const header = resolve(document, raw)
+                    return [
+                        [name, parseHeader(document, get(header, 'schema'), value, get(header, 'explode') === true)],
+                    ]
+                }),
+            )
+        },
+        accept: (path, method) => {
+            const responses = (get(operation(path, method)?.raw, 'responses') ?? {}) as OpenApiObject
+            const content = Object.values(responses).map(raw => get(resolve(document, raw), 'content') ?? {})
+            return [...new Set(content.flatMap(Object.keys))]
+        },
+    }
+}
+
+/**
+ * Loosely typed OpenAPI object.
+ */
+type OpenApiObject = { [_ in string]: unknown }
+
+/**
+ * OpenAPI parameter object, with the fields read by the validator.
+ */
+type OpenApiParameter = { name: string; in: string; required?: boolean; explode?: boolean; schema?: unknown }
+
+/**
+ * JSON Schema object, with the keywords checked by the validator.
+ */
+type JsonSchema = {
+    $ref?: string
+    type?: string | string[]
+    nullable?: boolean
+    const?: unknown
+    enum?: unknown[]
+    allOf?: unknown[]
+    anyOf?: unknown[]
+    oneOf?: unknown[]
+    not?: unknown
+    minimum?: number
+    maximum?: number
+    minLength?: number
+    maxLength?: number
+    pattern?: string
+    minItems?: number
+    maxItems?: number
+    prefixItems?: unknown[]
+    items?: unknown
+    properties?: { [_ in string]: unknown }
+    required?: string[]
+    additionalProperties?: unknown
+}
+
+/**
+ * Read a nested property of an OpenAPI object, or `undefined` if any of the objects is missing.
+ *
+ * @param object Object to read.
+ * @param keys Property keys.
+ */
+export const get = (object: unknown, ...keys: string[]) =>
+    keys.reduce<unknown>(($, key) => ($ && typeof $ === 'object' ? ($ as OpenApiObject)[key] : undefined), object)
+
+/**
+ * Resolve an object that may be a local `$ref` (`#/...` JSON pointer), following chained references.
+ * Other references resolve to `undefined`.
+ *
+ * @param document OpenAPI document.
+ * @param object Object or reference.
+ */
+export const resolve = (document: unknown, object: unknown, depth = 0): unknown => {
+    const ref = get(object, '$ref')
+    if (typeof ref !== 'string') return object
+    if (!ref.startsWith('#') || depth > 32) return undefined
+    const keys = ref
+        .slice(2)
+        .split('/')
+        .filter(key => key)
+        .map(key => unescapePointer(decodeURIComponent(key)))
+    return resolve(document, get(document, ...keys), depth + 1)
+}
+
+/**
+ * Find the media type object of `content` matching a content-type, if it is a JSON media type.
+ *
+ * @param content OpenAPI content map.
+ * @param contentType Content-type to match, parameters are ignored.
+ */
+const mediaType = (content: unknown, contentType: string) => {
+    const type = contentType.split(';')[0].trim().toLowerCase()
+    if (!content || !/^[^/]+\/(?:[^+]+\+)?json$/.test(type)) return
+    return get(content, type) ?? get(content, `${type.split('/')[0]}/*`) ?? get(content, '*/*')
+}
+
+/**
+ * Create a validation issue.
+ *
+ * @param pointer JSON pointer of the invalid value.
+ * @param message Issue description.
+ */
+const issue = (pointer: string, message: string): StandardIssue => ({
+    message: `${pointer} ${message}`,
+    path: pointer.split('/').slice(1).map(unescapePointer),
+})
+
+/**
+ * Escape a key for use as a JSON pointer segment.
+ *
+ * @param key Key to escape.
+ */
+const escapePointer = (key: string) => key.replace(/~/g, '~0').replace(/\//g, '~1')
+
+/**
+ * Unescape a JSON pointer segment.
+ *
+ * @param segment Segment to unescape.
+ */
+export const unescapePointer = (segment: string) => segment.replace(/~1/g, '/').replace(/~0/g, '~')
+
+/**
+ * Convert a string parameter value to the number or boolean type of its schema, if possible.
+ *
+ * @param document OpenAPI document.
+ * @param schema Parameter schema.
+ * @param value Parameter value.
+ */
+const coerce = (document: unknown, schema: unknown, value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(item => coerce(document, get(resolve(document, schema), 'items'), item))
+    const types = [get(resolve(document, schema), 'type') ?? []].flat()
+    if (typeof value !== 'string' || types.includes('string')) return value
+    if ((types.includes('number') || types.includes('integer')) && value.trim() && !isNaN(+value)) return +value
+    if (types.includes('boolean') && (value === 'true' || value === 'false')) return value === 'true'
+    return value
+}
+
+/**
+ * Parse a header value with the `simple` style, converting values to the types of its schema.
+ *
+ * @param document OpenAPI document.
+ * @param schema Header schema.
+ * @param value Header value.
+ * @param explode Object headers are serialized as `key=value` pairs instead of `key,value` lists.
+ */
+const parseHeader = (document: unknown, schema: unknown, value: string, explode: boolean) => {
+    const resolved = resolve(document, schema)
+    const types = [get(resolved, 'type') ?? []].flat()
+    if (!types.includes('array') && !types.includes('object')) return coerce(document, resolved, value)
+    const items = value.split(',').map(item => item.trim())
+    if (types.includes('array')) return coerce(document, resolved, items)
+    const entries = explode
+        ? items.map(item => item.split('='))
+        : items.flatMap((item, index) => (index % 2 ? [] : [[item, items[index + 1] ?? '']]))
+    return Object.fromEntries(
+        entries.map(([key, item]) => [key, coerce(document, get(resolved, 'properties', key), item)]),
+    )
+}
+
+/**
+ * Check whether a value matches a JSON Schema `type`.
+ *
+ * @param value Value to check.
+ * @param type Schema type.
+ */
+const matchType = (value: unknown, type: string) =>
+    type === 'integer'
+        ? Number.isInteger(value)
+        : type === 'array'
+          ? Array.isArray(value)
+          : type === 'object'
+            ? !!value && typeof value === 'object' && !Array.isArray(value)
+            : type === 'null'
+              ? value === null
+              : typeof value === type
+
+/**
+ * Compare JSON values by structure.
+ *
+ * @param a First value.
+ * @param b Second value.
+ */
+const equal = (a: unknown, b: unknown): boolean =>
+    a === b ||
+    (!!a &&
+        !!b &&
+        typeof a === 'object' &&
+        typeof b === 'object' &&
+        Array.isArray(a) === Array.isArray(b) &&
+        Object.keys(a).length === Object.keys(b).length &&
+        Object.entries(a).every(([key, value]) => equal(value, get(b, key))))
+
+/**
+ * Validate a value against a JSON Schema, returning the issues found.
+ *
+ * @param document OpenAPI document, used to resolve `$ref`s.
+ * @param raw Schema or reference.
+ * @param value Value to validate.
+ * @param pointer JSON pointer of the value.
+ */
+const check = (document: unknown, raw: unknown, value: unknown, pointer: string): StandardIssue[] => {
+    if (raw === undefined || raw === true) return []
+    if (raw === false) return [issue(pointer, 'is not allowed')]
+    const { $ref, ...rest } = raw as JsonSchema
+    if ($ref !== undefined) {
+        const target = resolve(document, { $ref })
+        return [...check(document, target, value, pointer), ...check(document, rest, value, pointer)]
+    }
+    const schema = raw as JsonSchema
+    if (value === null && schema.nullable === true) return []
+    if ('const' in schema && !equal(value, schema.const))
+        return [issue(pointer, `must be ${JSON.stringify(schema.const)}`)]
+    if (schema.enum && !schema.enum.some((item: unknown) => equal(item, value)))
+        return [issue(pointer, `must be one of ${JSON.stringify(schema.enum)}`)]
+    const types = [schema.type ?? []].flat()
+    if (types.length && !types.some(type => matchType(value, type)))
+        return [issue(pointer, `must be ${types.join(' or ')}`)]
+
+    const valid = (subschema: unknown) => !check(document, subschema, value, pointer).length
+    const issues = (schema.allOf ?? []).flatMap(subschema => check(document, subschema, value, pointer))
+    if (schema.anyOf && !schema.anyOf.some(valid)) issues.push(issue(pointer, 'must match a schema of anyOf'))
+    if (schema.oneOf && schema.oneOf.filter(valid).length !== 1)
+        issues.push(issue(pointer, 'must match exactly one schema of oneOf'))
+    if (schema.not !== undefined && valid(schema.not)) issues.push(issue(pointer, 'must not match the schema of not'))
+
+    if (typeof value === 'number') {
+        if (value < (schema.minimum ?? -Infinity)) issues.push(issue(pointer, `must be >= ${schema.minimum}`))
+        if (value > (schema.maximum ?? Infinity)) issues.push(issue(pointer, `must be <= ${schema.maximum}`))
+    } else if (typeof value === 'string') {
+        if (value.length < (schema.minLength ?? 0))
+            issues.push(issue(pointer, `must have at least ${schema.minLength} characters`))
+        if (value.length > (schema.maxLength ?? Infinity))
+            issues.push(issue(pointer, `must have at most ${schema.maxLength} characters`))
+        if (schema.pattern && !new RegExp(schema.pattern, 'u').test(value))
+            issues.push(issue(pointer, `must match pattern ${schema.pattern}`))
+    } else if (Array.isArray(value)) {
+        if (value.length < (schema.minItems ?? 0))
+            issues.push(issue(pointer, `must have at least ${schema.minItems} items`))
+        if (value.length > (schema.maxItems ?? Infinity))
+            issues.push(issue(pointer, `must have at most ${schema.maxItems} items`))
+        const prefix = schema.prefixItems ?? []
+        value.forEach((item, index) => {
+            const subschema = index < prefix.length ? prefix[index] : schema.items
+            issues.push(...check(document, subschema, item, `${pointer}/${index}`))
+        })
+    } else if (value && typeof value === 'object') {
+        const properties = schema.properties ?? {}
+        for (const key of schema.required ?? [])
+            if (!Object.hasOwn(value, key)) issues.push(issue(`${pointer}/${escapePointer(key)}`, 'is required'))
+        for (const [key, item] of Object.entries(value)) {
+            const subschema = Object.hasOwn(properties, key) ? properties[key] : schema.additionalProperties
+            if (item !== undefined) issues.push(...check(document, subschema, item, `${pointer}/${escapePointer(key)}`))
+        }
+    }
+    return issues
+}
@@ -0,0 +1,74 @@
+import { expect, test } from 'bun:test'
+import { serializeHeader, serializePath, serializeQuery } from './serialize'
+
+const array = [3, 4, 5]
+const object = { role: 'admin', name: 'Ana B' }
+
+test('path styles', () => {
+    const styles = ['simple', 'label', 'matrix'].flatMap(style =>
+        [false, true].map(explode => [5, array, object].map(value => serializePath('id', value, { style, explode }))),
+    )
+    expect(styles).toEqual([
+        ['5', '3,4,5', 'role,admin,name,Ana%20B'],
+        ['5', '3,4,5', 'role=admin,name=Ana%20B'],
+        ['.5', '.3,4,5', '.role,admin,name,Ana%20B'],
+        ['.5', '.3.4.5', '.role=admin.name=Ana%20B'],
+        [';id=5', ';id=3,4,5', ';id=role,admin,name,Ana%20B'],
+        [';id=5', ';id=3;id=4;id=5', ';role=admin;name=Ana%20B'],
+    ])
+    expect(serializeHeader(object)).toBe('role,admin,name,Ana B')
+    expect(serializeHeader(object, { explode: true })).toBe('role=admin,name=Ana B')
+})
+
+test('query styles', () => {
+    const styles = ['form', 'spaceDelimited', 'pipeDelimited'].flatMap(style =>
+        [false, true].map(explode => [array, object].map(value => serializeQuery('id', value, { style, explode }))),
+    )
+    expect(styles).toEqual([
+        [[['id', '3,4,5']], [['id', 'role,admin,name,Ana B']]],
+        [
+            [
+                ['id', '3'],
+                ['id', '4'],
+                ['id', '5'],
+            ],
+            [
+                ['role', 'admin'],
+                ['name', 'Ana B'],
+            ],
+        ],
+        [[['id', '3 4 5']], [['id', 'role admin name Ana B']]],
+        [
+            [
+                ['id', '3'],
+                ['id', '4'],
+                ['id', '5'],
+            ],
+            [
+                ['role', 'admin'],
+                ['name', 'Ana B'],
+            ],
+        ],
+        [[['id', '3|4|5']], [['id', 'role|admin|name|Ana B']]],
+        [
+            [
+                ['id', '3'],
+                ['id', '4'],
+                ['id', '5'],
+            ],
+            [
+                ['role', 'admin'],
+                ['name', 'Ana B'],
+            ],
+        ],
+    ])
+    expect(serializeQuery('id', { role: 'admin', age: { gt: 18 }, tags: ['a', 'b'] }, { style: 'deepObject' })).toEqual(
+        [
+            ['id[role]', 'admin'],
+            ['id[age][gt]', '18'],
+            ['id[tags]', 'a'],
+            ['id[tags]', 'b'],
+        ],
+    )
+    expect(serializeQuery('id', 5)).toEqual([['id', '5']])
+})
@@ -0,0 +1,90 @@
+/**
+ * Serialize a path parameter with an OpenAPI path style, percent-encoding names and values:
+ * - `'simple'`: `5`, `3,4,5`, `role,admin,name,Ana`, or exploded `role=admin,name=Ana`.
+ * - `'label'`: `.5`, `.3,4,5`, `.role,admin,name,Ana`, or exploded `.3.4.5` and `.role=admin.name=Ana`.
+ * - `'matrix'`: `;id=5`, `;id=3,4,5`, `;id=role,admin,name,Ana`, or exploded `;id=3;id=4;id=5` and
+ *   `;role=admin;name=Ana`.
+ *
+ * @param name Parameter name.
+ * @param value Parameter value.
+ * @param style Parameter style and explode, default `'simple'` and `false`.
+ * @param encode Encode names and values.
+ */
+export const serializePath = (
+    name: string,
+    value: unknown,
+    { style = 'simple', explode = false }: { style?: string; explode?: boolean } = {},
+    encode: (text: string) => string = encodeURIComponent,
+) => {
+    const items = Array.isArray(value)
+        ? value.filter(item => item != undefined).map(item => encode(`${item}`))
+        : isObject(value)
+          ? entries(value).map(([key, item]) => `${encode(key)}${explode ? '=' : ','}${encode(`${item}`)}`)
+          : [encode(`${value}`)]
+    if (style === 'label') return `.${items.join(explode ? '.' : ',')}`
+    if (style !== 'matrix') return items.join(',')
+    if (!explode) return `;${encode(name)}=${items.join(',')}`
+    return isObject(value) ? `;${items.join(';')}` : items.map(item => `;${encode(name)}=${item}`).join('')
+}
+
+/**
+ * Serialize a query parameter with an OpenAPI query style into query entries, encoded later by the URL:
+ * - `'form'`: `id=3,4,5` and `id=role,admin,name,Ana`, or exploded `id=3&id=4&id=5` and `role=admin&name=Ana`.
+ * - `'spaceDelimited'` and `'pipeDelimited'`: `id=3 4 5` and `id=3|4|5`, exploded like `'form'`.
+ * - `'deepObject'`: `id[role]=admin&id[name]=Ana`, nested objects add more brackets.
+ *
+ * @param name Parameter name.
+ * @param value Parameter value.
+ * @param style Parameter style and explode, default `'form'` and `true`.
+ */
+export const serializeQuery = (
+    name: string,
+    value: unknown,
+    { style = 'form', explode = true }: { style?: string; explode?: boolean } = {},
+): [string, string][] => {
+    if (style === 'deepObject') return deepObject(name, value)
+    const delimiter = style === 'spaceDelimited' ? ' ' : style === 'pipeDelimited' ? '|' : ','
+    if (Array.isArray(value)) {
+        const items = value.filter(item => item != undefined).map(item => `${item}`)
+        return explode ? items.map(item => [name, item]) : [[name, items.join(delimiter)]]
+    }
+    if (!isObject(value)) return [[name, `${value}`]]
+    const pairs = entries(value).map(([key, item]): [string, string] => [key, `${item}`])
+    return explode ? pairs : [[name, pairs.flat().join(delimiter)]]
+}
+
+/**
+ * Serialize a header parameter with the OpenAPI `'simple'` style, without encoding.
+ *
+ * @param value Parameter value.
+ * @param style Parameter explode, default `false`.
+ */
+export const serializeHeader = (value: unknown, { explode = false }: { explode?: boolean } = {}) =>
+    serializePath('', value, { explode }, text => text)
+
+/**
+ * Serialize a query parameter with the `'deepObject'` style, recursively.
+ *
+ * @param key Parameter key, including the brackets of the parent objects.
+ * @param value Parameter value.
+ */
+const deepObject = (key: string, value: unknown): [string, string][] =>
+    isObject(value)
+        ? entries(value).flatMap(([name, item]) => deepObject(`${key}[${name}]`, item))
+        : Array.isArray(value)
+          ? value.filter(item => item != undefined).map(item => [key, `${item}`])
+          : [[key, `${value}`]]
+
+/**
+ * Check whether a value is a non-array object.
+ *
+ * @param value Value to check.
+ */
+const isObject = (value: unknown): value is object => !!value && typeof value === 'object' && !Array.isArray(value)
+
+/**
+ * Entries of an object without nullish values.
+ *
+ * @param object Object to read.
+ */
+const entries = (object: object) => Object.entries(object).filter(([, value]) => value != undefined)
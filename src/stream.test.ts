@@ -0,0 +1,62 @@
+import { expect, mock, test } from 'bun:test'
+import { readEvents, readLines, readNdjson } from './stream'
+
+const stream = (...chunks: string[]) =>
+    new ReadableStream<Uint8Array>({
+        start: controller => {
+            chunks.forEach(chunk => controller.enqueue(new TextEncoder().encode(chunk)))
+            controller.close()
+        },
+    })
+
+test('read lines', async () => {
+    expect(await Array.fromAsync(readLines(stream('a\nb\r\nc\rd')))).toEqual(['a', 'b', 'c', 'd'])
+    expect(await Array.fromAsync(readLines(stream('a\r', '\nb\r', '\r', 'c\r')))).toEqual(['a', 'b', '', 'c'])
+    expect(await Array.fromAsync(readLines(stream('á'.slice(0, 1), '\n\n')))).toEqual(['á', ''])
+    const cancel = mock(() => {})
+    const endless = new ReadableStream<Uint8Array>({
+        pull: controller => controller.enqueue(new TextEncoder().encode('a\n')),
+        cancel,
+    })
+    for await (const _ of readLines(endless)) break
+    expect(cancel).toHaveBeenCalled()
+})
+
+test('read ndjson', async () => {
+    expect(await Array.fromAsync(readNdjson(stream('{"a":1}\n\n[2]\n', '3')))).toEqual([{ a: 1 }, [2], 3])
+})
+
+test('read events', async () => {
+    const events = stream(': comment\n', 'data: a\ndata:b\n\n', 'event: update\nid: 1\nretry: 10\ndata\n\n', 'data: c')
+    expect(await Array.fromAsync(readEvents(events))).toEqual([
+        { event: 'message', data: 'a\nb', id: '', retry: undefined },
+        { event: 'update', data: '', id: '1', retry: 10 },
+    ])
+})
+
+test('read events reconnect', async () => {
+    const failing = (chunk: string) =>
+        new ReadableStream<Uint8Array>({
+            start: controller => controller.enqueue(new TextEncoder().encode(chunk)),
+            pull: controller => controller.error(new Error('disconnected')),
+        })
+    const calls: unknown[] = []
+    const reconnect = async (lastEventId: string, retry: number | undefined, attempt: number) => {
+        calls.push([lastEventId, retry, attempt])
+        return calls.length === 1 ? stream('id: 2\ndata: b\n\n') : undefined
+    }
+    expect(await Array.fromAsync(readEvents(failing('id: 1\nretry: 5\ndata: a\n\n'), reconnect))).toEqual([
+        { event: 'message', data: 'a', id: '1', retry: 5 },
+        { event: 'message', data: 'b', id: '2', retry: 5 },
+    ])
+    expect(calls).toEqual([
+        ['1', 5, 0],
+        ['2', 5, 0],
+    ])
+    await expect(Array.fromAsync(readEvents(failing('data: a\n\n'), reconnect))).rejects.toThrow('disconnected')
+    const attempts: number[] = []
+    const retrying = async (_: string, __: number | undefined, attempt: number) =>
+        attempts.push(attempt) < 3 ? failing('') : undefined
+    await expect(Array.fromAsync(readEvents(failing(''), retrying))).rejects.toThrow('disconnected')
+    expect(attempts).toEqual([0, 1, 2])
+})
@@ -0,0 +1,106 @@
+/**
+ * Server-sent event dispatched by an event stream.
+ *
+ * For full specification, see: https://html.spec.whatwg.org/multipage/server-sent-events.html
+ */
+export type ServerSentEvent = {
+    /** Event type, `'message'` if not informed by the server. */
+    event: string
+    /** Event data, multiple `data` fields are joined with line feeds. */
+    data: string
+    /** Last event ID, kept across events until the server changes it. */
+    id: string
+    /** Reconnection time in milliseconds requested by the server. */
+    retry?: number
+}
+
+/**
+ * Read a byte stream as lines of text. LF, CRLF and CR line endings are supported.
+ *
+ * The stream is cancelled if reading stops before its end, such as when breaking out of a `for await` loop.
+ *
+ * @param stream Byte stream to read.
+ */
+export async function* readLines(stream: ReadableStream<Uint8Array>): AsyncGenerator<string, void, undefined> {
+    const decoder = new TextDecoder()
+    const reader = stream.getReader()
+    let buffer = ''
+    let done = false
+    try {
+        for (let read = await reader.read(); !(done = read.done); read = await reader.read()) {
+            const lines = (buffer += decoder.decode(read.value, { stream: true })).split(/\r\n|\r(?!$)|\n/)
+            buffer = lines.pop()!
+            yield* lines
+        }
+        buffer = (buffer + decoder.decode()).replace(/\r$/, '')
+        if (buffer) yield buffer
+    } finally {
+        if (!done) await reader.cancel().catch(() => {})
+        reader.releaseLock()
+    }
+}
+
+/**
+ * Read a newline delimited JSON (NDJSON, JSON Lines) byte stream, blank lines are skipped.
+ *
+ * @param stream Byte stream to read.
+ */
+export async function* readNdjson<Item = unknown>(
+    stream: ReadableStream<Uint8Array>,
+): AsyncGenerator<Item, void, undefined> {
+    for await (const line of readLines(stream)) if (line.trim()) yield JSON.parse(line)
+}
+
+/**
+ * Read a `text/event-stream` byte stream as {@linkcode ServerSentEvent}s.
+ *
+ * If the stream fails or is closed and `reconnect` is informed, it is called with the last event ID, the reconnection
+ * time requested by the server, and the number of reconnections since the last event, to open a new stream, as
+ * `EventSource` does. Reading resumes from the new stream, or ends if `reconnect` returns `undefined`, rethrowing the
+ * failure if any.
+ *
+ * @param stream Byte stream to read.
+ * @param reconnect Open a new stream after a failure or a close.
+ */
+export async function* readEvents(
+    stream: ReadableStream<Uint8Array>,
+    reconnect?: (
+        lastEventId: string,
+        retry: number | undefined,
+        attempt: number,
+    ) => Promise<ReadableStream<Uint8Array> | undefined>,
+): AsyncGenerator<ServerSentEvent, void, undefined> {
+    let id = ''
+    let retry: number | undefined
+    let attempt = 0
+    while (true) {
+        let event = ''
+        let data: string[] = []
+        try {
+            for await (const line of readLines(stream)) {
+                if (!line) {
+                    if (data.length) {
+                        attempt = 0
+                        yield { event: event || 'message', data: data.join('\n'), id, retry }
+                    }
+                    event = ''
+                    data = []
+                    continue
+                }
+                const [, field, value = ''] = line.match(/^([^:]*):? ?(.*)$/)!
+                if (field === 'event') event = value
+                else if (field === 'data') data.push(value)
+                else if (field === 'id' && !value.includes('\0')) id = value
+                else if (field === 'retry' && /^\d+$/.test(value)) retry = +value
+            }
+        } catch (error) {
+            const next = await reconnect?.(id, retry, attempt++)
+            if (!next) throw error
+            stream = next
+            continue
+        }
+        const next = await reconnect?.(id, retry, attempt++)
+        if (!next) return
+        stream = next
+    }
+}
@@ -1,3 +1,10 @@
+import type { ClientAuth, openApiAuth } from '../auth'
+import type { ClientCache, memoryCache } from '../cache'
+import type { CircuitBreaker, circuitBreaker } from '../circuit'
+import type { serverUrls } from '../client'
+import type { OpenApiValidator, openApiValidator } from '../openapi'
+import type { ServerSentEvent } from '../stream'
+import { StandardIssue, StandardOutput, StandardSchema } from './standard'
 import { ExpandBlock, Get, OptionalEmpty, OptionalUndefined, StatusBlock, StatusDefault } from './util'
 
 /**
@@ -11,7 +18,11 @@ export type ClientSpec<Methods extends string = string> = {
             header: { [_ in string]: string }
             cookie: { [_ in string]: string }
             request: BodyInit | object | string | number | bigint | boolean | null | undefined
+            requestContent?: { [mediaType in string]: unknown }
             responses: { [_ in number]: unknown }
+            responseContent?: { [_ in number]: { [mediaType in string]: unknown } }
+            responseHeaders?: { [_ in number]: { [_ in string]: unknown } }
+            security?: { [scheme in string]: unknown }
         }
     }
 }
@@ -28,6 +39,7 @@ export type DefaultSpec<Methods extends string = DefaultMethod> = {
             cookie: { [_ in string]: string }
             request: BodyInit | object | string | number | bigint | boolean | null | undefined
             responses: { [_ in number]: unknown }
+            responseHeaders: { [_ in number]: RawHeaders }
         }
     }
 }
@@ -51,8 +63,9 @@ export type DefaultMethod =
  * Create a typed fetch client based on the provided {@linkcode ClientSpec}.
  *
  * An untyped {@linkcode DefaultClient} is available through `$` if `Bypass` is `true`, useful for dynamic requests.
+ * `Defaults` are client options typing the results of every call, such as `openapi`.
  */
-export type Client<Spec, Bypass = true> = {
+export type Client<Spec, Bypass = true, Defaults = {}> = {
     $: Bypass extends true ? Client<DefaultSpec, false> : never
 } & {
     [Path in keyof Spec]: {
@@ -67,8 +80,15 @@ export type Client<Spec, Bypass = true> = {
             ...request: {} extends ClientRequest<Spec[Path][Method], RequestOverride>
                 ? [request?: Request]
                 : [request: Request]
-        ) => Promise<ClientResponse<Spec[Path][Method], ResponseOverride, Request>>) & {
+        ) => Promise<ClientResult<Spec[Path][Method], ResponseOverride, Request & Defaults>>) & {
             error: ClientError_<Spec[Path][Method]>
+            paginate: <
+                Item = never,
+                Request extends ClientRequest<Spec[Path][Method]> = ClientRequest<Spec[Path][Method]>,
+            >(
+                request: Request,
+                pagination: ClientPagination<Spec[Path][Method], ClientPage<Spec[Path][Method], Request>, Item>,
+            ) => AsyncIterable<[Item] extends [never] ? ClientPage<Spec[Path][Method], Request> : Item>
         }
     }
 }
@@ -83,19 +103,100 @@ export type ClientRequest<
     BodyOverride = unknown,
 > = Omit<RequestInit, 'headers' | 'body'> & {
     /**
-     * Base URL used as prefix for HTTP calls.
+     * Base URL used as prefix for HTTP calls, or a list of server base URLs selected by `urlStrategy`.
+     * {@linkcode serverUrls} lists the servers of an OpenAPI document.
      *
      * URL resolution uses axios-like algorithm. URL path segments are never stripped.
      */
-    url?: URL | string
+    url?: URL | string | (URL | string)[]
+
+    /**
+     * Server selection strategy when `url` lists multiple servers:
+     * - `'failover'`: servers are tried in order.
+     * - `'round-robin'`: the first server tried rotates across calls sharing the `url` list, then it fails over.
+     * - `{ hedge }`: the next server is also tried if no response arrives within `hedge` milliseconds, the first
+     *   response wins and the other requests are aborted.
+     *
+     * Each attempt moves to the next server on network errors and on status codes matching `retryStatus`, and skips
+     * servers whose `circuit` is open. The attempt fails with the last server outcome.
+     *
+     * Default: `'failover'`
+     */
+    urlStrategy?: 'failover' | 'round-robin' | { hedge: number }
 
     /**
      * Parse the response body based on its content-type, might return a string, object, array, or blob.
      * If `false`, the `response.body` reader is returned.
      *
+     * Streaming responses are parsed into {@linkcode AsyncIterable}s, either by content-type (`text/event-stream`,
+     * `application/x-ndjson` and `application/jsonl`) or by forcing a mode:
+     * - `'sse'`: {@linkcode ServerSentEvent}s. Streams that fail or are closed by the server reconnect with the
+     *   `Last-Event-ID` header, up to `retry` times in a row without events, waiting for the server requested time or
+     *   `retryDelay`. A `204` reconnection response ends the stream. Breaking out of the iteration cancels the stream.
+     * - `'ndjson'`: JSON values, one per line.
+     * - `'lines'`: lines of text.
+     *
      * Default: `true`
      */
-    parse?: boolean
+    parse?: boolean | 'sse' | 'ndjson' | 'lines'
+
+    /**
+     * Media type of the request body, sent as the `content-type` header unless set in `header`, which also selects
+     * the body serializer. Typed clients also type the request `body` as the body of this media type.
+     */
+    contentType?: RequestMediaType<MethodSpec>
+
+    /**
+     * Media type of the response body, sent as the `Accept` header unless set in `header`.
+     * Typed clients also type the response `body` as the body of this media type, for responses declaring it.
+     *
+     * Default: the media types declared by the operation responses if `openapi` is set, otherwise none.
+     */
+    accept?: ResponseMediaType<MethodSpec>
+
+    /**
+     * Response body parsers by media type pattern, merged with the default parsers.
+     * Patterns may use `*` as wildcard for the type or subtype, such as `text/*` or `application/*+json`, the most
+     * specific matching pattern is used. The catch-all pattern, with wildcard type and subtype, parses the rest.
+     *
+     * Default parsers handle JSON (including `+json`), plain text, XML (as text), form data, and blobs.
+     */
+    parsers?: { [mediaType in string]: (response: Response) => unknown }
+
+    /**
+     * Request body serializers by media type pattern, merged with the default serializers.
+     * The serializer is selected by the `content-type` header, and applies to plain objects, arrays and primitives.
+     *
+     * Default serializers handle JSON (including `+json`), plain text, `application/x-www-form-urlencoded`, and
+     * `multipart/form-data`. Objects in plain text bodies and form fields, and unmatched media types, are serialized as
+     * JSON.
+     */
+    serializers?: { [mediaType in string]: (body: unknown) => BodyInit | Promise<BodyInit> }
+
+    /**
+     * Serialization of `path`, `query` and `header` parameters with OpenAPI `style` and `explode` semantics, for all
+     * parameters of a location or by parameter name:
+     * - `path`: `'simple'`, `'label'` or `'matrix'`. Default: `{ style: 'simple', explode: false }`
+     * - `query`: `'form'`, `'spaceDelimited'`, `'pipeDelimited'` or `'deepObject'`.
+     *   Default: `{ style: 'form', explode: true }`
+     * - `header`: `'simple'`. Default: `{ style: 'simple', explode: false }`
+     *
+     * Styles are merged by location, call styles take precedence over client styles, and styles by parameter name
+     * over styles of the location.
+     */
+    style?: {
+        path?: ClientParameterStyle<'simple' | 'label' | 'matrix'>
+        query?: ClientParameterStyle<'form' | 'spaceDelimited' | 'pipeDelimited' | 'deepObject'>
+        header?: ClientParameterStyle<'simple'>
+    }
+
+    /**
+     * Serialize query parameters into a query string, such as `a=1&b=2`, replacing the `style.query` serialization.
+     * The query string is appended to any existing parameters specified in `url`.
+     *
+     * @param query Query parameters, without nullish values.
+     */
+    querySerializer?: (query: { [_ in string]: unknown }) => string
 
     /**
      * Request timeout in milliseconds.
@@ -111,6 +212,14 @@ export type ClientRequest<
      */
     timeoutReset?: boolean
 
+    /**
+     * Timeout in milliseconds for each request attempt, independent from `timeout`.
+     * Attempts that time out are retried if `retryOn` includes `'timeout'`.
+     *
+     * Default: `Infinity`
+     */
+    attemptTimeout?: number
+
     /**
      * Number of retries if status check fails.
      *
@@ -118,12 +227,37 @@ export type ClientRequest<
      */
     retry?: number
 
+    /**
+     * Which failures can trigger a retry:
+     * - `'status'`: response status codes matching `retryStatus`.
+     * - `'network'`: errors thrown by {@linkcode fetch}, such as connection resets and DNS failures.
+     * - `'timeout'`: attempts aborted by `attemptTimeout`.
+     *
+     * Aborts from `signal` or `timeout` are never retried.
+     *
+     * Default: `['status']`
+     */
+    retryOn?: ('status' | 'network' | 'timeout')[]
+
     /**
      * Retry delay in milliseconds. A list of delays may be informed for each retry attempt.
      *
+     * Exponential backoff is used if an object is informed, the delay of each attempt is `base * factor ** attempt`
+     * capped to `max`. With `jitter`, a random delay between zero and the computed one is used instead.
+     *
      * Default: `[100, 500, 2500, 10000]`
      */
-    retryDelay?: [number, ...number[]]
+    retryDelay?: [number, ...number[]] | { base: number; factor?: number; max?: number; jitter?: boolean }
+
+    /**
+     * Derive the retry delay from `Retry-After`, `RateLimit-Reset` and `X-RateLimit-Reset` response headers.
+     * The headers take precedence over `retryDelay` unless `'ignore'`.
+     *
+     * If `max` is informed, responses asking for longer delays (in milliseconds) are not retried.
+     *
+     * Default: `'ignore'`
+     */
+    retryAfter?: 'respect' | 'ignore' | { max: number }
 
     /**
      * Which response status codes can trigger a retry.
@@ -133,6 +267,16 @@ export type ClientRequest<
      */
     retryStatus?: [number, ...number[]]
 
+    /**
+     * Maximum size in bytes of a {@linkcode ReadableStream} request body buffered to be replayed on retries.
+     * Larger streams are sent once without retries, and a retryable status fails with the `'replay'` error.
+     *
+     * Other body types are always replayable.
+     *
+     * Default: `1048576` (1 MiB)
+     */
+    retryBodyLimit?: number
+
     /**
      * Which response status codes are considered success.
      * Single digits represent the entire block (`2` -> `2XX`).
@@ -141,6 +285,43 @@ export type ClientRequest<
      */
     status?: (Exclude<keyof Get<MethodSpec, 'responses'>, StatusDefault> | 0 | StatusBlock | (number & {}))[]
 
+    /**
+     * Throw {@linkcode ClientError}s. If `false`, the call resolves to a result with an `ok` discriminant instead:
+     * `{ ok: true, ...response }` on success, or `{ ok: false, error }` on failure.
+     *
+     * Errors that are not {@linkcode ClientError}s, such as errors thrown by interceptors, are still thrown.
+     * Clients only accept `throw` per call, which types the call result, and ignore it in their default options.
+     *
+     * Default: `true`
+     */
+    throw?: boolean
+
+    /**
+     * {@linkcode StandardSchema} validators (Zod, Valibot, ArkType, ...) of the successful response body, or of the
+     * `request` and `response` bodies. Validator outputs replace the bodies, and the response validator output type
+     * becomes the call `body` type.
+     *
+     * Failed validations throw a {@linkcode ClientError} with the `'validation'` error and the validation `issues`.
+     * Streamed response bodies are not validated.
+     */
+    validate?: StandardSchema | { request?: StandardSchema; response?: StandardSchema }
+
+    /**
+     * Validate parameters and bodies against the OpenAPI document of the client, see {@linkcode openApiValidator}.
+     *
+     * Requests are validated before being sent, and successful response bodies after being parsed. Failures throw a
+     * {@linkcode ClientError} with the `'validation'` error and the validation `issues`.
+     */
+    openapi?: OpenApiValidator
+
+    /**
+     * Authenticate requests with the credentials of the OpenAPI security schemes of each operation, see
+     * {@linkcode openApiAuth}.
+     *
+     * Credentials are applied to each attempt after `interceptRequest`, and before middlewares.
+     */
+    auth?: ClientAuth
+
     /**
      * Intercept the resolved {@linkcode Request} object before the {@linkcode call} call.
      * The interceptor function may mutate `request` or override it by returning a new {@linkcode Request}.
@@ -152,14 +333,115 @@ export type ClientRequest<
     interceptRequest?: (request: Request) => void | Request | Promise<void | Request>
 
     /**
-     * Intercept the received {@linkcode Response} object after successful status check.
-     * The interceptor function may mutate `response` or override it by returning a new {@linkcode Response}.
+     * Intercept the received {@linkcode Response} object after its body is parsed, for successful and failed status
+     * checks. The interceptor function may mutate `response` or override it by returning a new {@linkcode Response},
+     * which is also the `response` of the {@linkcode ClientError} thrown for failed status checks.
      *
      * Client and call interceptors are called in order.
      *
      * @param response Response to mutate or override.
      */
     interceptResponse?: (response: Response) => void | Response | Promise<void | Response>
+
+    /**
+     * Intercept the {@linkcode ClientError} thrown by the call, for status check failures and network errors.
+     * The interceptor function may throw a different error, or recover by returning a response to resolve the call
+     * with.
+     *
+     * Client and call interceptors are called in order, until one recovers from the error.
+     *
+     * @param error Error to inspect, transform, or recover from.
+     */
+    interceptError?: (error: ClientError) => void | RecoveredEntry | Promise<void | RecoveredEntry>
+
+    /**
+     * Cache responses of `GET` requests, honoring `Cache-Control`, `Expires`, `ETag`, `Last-Modified`, and `Vary`.
+     * If `true`, an in-memory cache of the client is used, a custom storage may be informed instead, see
+     * {@linkcode memoryCache}.
+     *
+     * Fresh responses are served from the cache, stale responses within `stale-while-revalidate` are served while
+     * revalidated in background, and expired responses are revalidated with conditional requests. On `304`, the cached
+     * parsed body is returned. Cached responses still go through `interceptResponse` and response validation. The
+     * request `cache` mode is honored (`'no-store'`, `'reload'`, `'no-cache'`, and `'force-cache'`).
+     *
+     * Responses of requests with credentials, such as `Authorization` and `Cookie` headers or `auth` requirements of
+     * the operation, are only cached if `Cache-Control: public`, and `Cache-Control: private` responses are never
+     * cached.
+     *
+     * Only parsed responses are cached, cached bodies are shared between calls and should not be mutated.
+     *
+     * Default: `false`
+     */
+    httpCache?: boolean | ClientCache
+
+    /**
+     * Coalesce concurrent identical `GET`, `HEAD` and `OPTIONS` requests of a client into a single call, sharing its
+     * parsed response with all callers. Requests are identified after `interceptRequest` by their method, URL, and
+     * headers, or by a custom key function, which may return `undefined` to skip deduplication. Calls setting `auth`,
+     * `use`, `openapi`, `parsers`, `validate`, `status`, `interceptResponse` or `onDownloadProgress` are not
+     * deduplicated.
+     *
+     * Callers aborting their `signal` are rejected, the shared call is only aborted when all callers abort.
+     * Only parsed responses are deduplicated, shared bodies should not be mutated.
+     *
+     * Default: `false`
+     */
+    dedupe?: boolean | ((request: Request) => string | undefined)
+
+    /**
+     * Maximum number of concurrent request attempts, queued attempts wait before {@linkcode fetch} is called.
+     *
+     * Limits are shared by all calls using the options object declaring them, such as all paths of a client. Client
+     * and call limits both apply, client limits are acquired first. Queued attempts still respect `timeout` and
+     * `signal`.
+     *
+     * Default: `Infinity`
+     */
+    concurrency?: number
+
+    /**
+     * Maximum number of request attempts per `interval` milliseconds, enforced with a token bucket of `limit` tokens.
+     * Buckets are shared by the whole client by default, or kept `per` host or per path template.
+     *
+     * Limits are shared by all calls using the options object declaring them, such as all paths of a client. Client
+     * and call limits both apply, client limits are acquired first. Queued attempts still respect `timeout` and
+     * `signal`.
+     */
+    rateLimit?: { limit: number; interval: number; per?: 'client' | 'host' | 'path' }
+
+    /**
+     * Circuit breaker failing request attempts fast while an upstream is failing, see {@linkcode circuitBreaker}.
+     *
+     * Network errors, attempt timeouts, and status codes matching `retryStatus` count as failures. Attempts rejected by
+     * an open circuit fail with the `'circuit'` error.
+     */
+    circuit?: CircuitBreaker
+
+    /**
+     * Report the request body upload progress of each attempt.
+     *
+     * Bodies of known size, such as strings, blobs, buffers and form parameters, are sent as is, reporting no bytes
+     * when the attempt starts and all bytes once the response is received. Other bodies are streamed to report the
+     * bytes read by {@linkcode fetch} as they are sent, which requires support for streaming request bodies, and
+     * sends them without `content-length`.
+     *
+     * @param progress Uploaded bytes, and the body size if known.
+     */
+    onUploadProgress?: (progress: ClientProgress) => void
+
+    /**
+     * Report the response body download progress, the body is still parsed according to `parse`.
+     *
+     * @param progress Downloaded bytes, and the `content-length` if known and the response is not encoded.
+     */
+    onDownloadProgress?: (progress: ClientProgress) => void
+
+    /**
+     * Middlewares wrapping each request attempt, including retries, see {@linkcode Middleware}.
+     *
+     * Client middlewares are called before call middlewares, each one wrapping the next.
+     */
+    use?: Middleware[]
 } & OptionalEmpty<{
         /**
          * Path template parameters to replace in the `url` field. It uses the `{key}` syntax.
@@ -182,12 +464,132 @@ export type ClientRequest<
          * Cookies to be included in the request.
          */
         cookie?: Partial<Get<MethodSpec, 'cookie'>>
-    } & OptionalUndefined<{
-        /**
-         * Request body.
-         */
-        body: unknown extends BodyOverride ? Get<MethodSpec, 'request'> : BodyOverride
-    }>
+    } & (unknown extends BodyOverride ? RequestContent<MethodSpec> : RequestBody<BodyOverride>)
+
+/**
+ * Request body, optional if it accepts `undefined`.
+ */
+type RequestBody<Body> = OptionalUndefined<{
+    /**
+     * Request body.
+     */
+    body: Body
+}>
+
+/**
+ * Request body typed by `contentType`, among the media types of the spec `requestContent`.
+ *
+ * `contentType` may be omitted for JSON bodies, and for bodies declaring a single media type.
+ */
+type RequestContent<MethodSpec> =
+    Get<MethodSpec, 'requestContent', {}> extends infer Content
+        ? [keyof Content] extends [never]
+            ? RequestBody<Get<MethodSpec, 'request'>>
+            : {
+                  [Media in keyof Content]: RequestBody<Content[Media]> &
+                      (Media extends `application/json${string}`
+                          ? { contentType?: Media }
+                          : [keyof Content] extends [Media]
+                            ? { contentType?: Media }
+                            : { contentType: Media })
+              }[keyof Content]
+        : never
+
+/**
+ * Media types of the spec `requestContent`, or any media type if none is declared.
+ */
+type RequestMediaType<MethodSpec> = [keyof Get<MethodSpec, 'requestContent', {}>] extends [never]
+    ? string
+    : keyof Get<MethodSpec, 'requestContent', {}> & string
+
+/**
+ * Media types of the spec `responseContent`, or any media type if none is declared.
+ */
+type ResponseMediaType<MethodSpec> =
+    Get<MethodSpec, 'responseContent', {}> extends infer Content
+        ? { [Status in keyof Content]: keyof Content[Status] }[keyof Content] & string extends infer Media
+            ? [Media] extends [never]
+                ? string
+                : Media
+            : never
+        : never
+
+/**
+ * Pagination strategy of {@linkcode Client} `paginate`, which iterates the pages, or their items if `items` is set:
+ * - `'link'`: follow the RFC 8288 `Link` response header with `rel="next"`, without `auth` credentials for links to
+ *   origins other than the `url` servers.
+ * - `'cursor'`: set the `param` query parameter to the value returned by `cursor`, until it returns nullish or `''`.
+ * - `'page'`: increment the `param` query parameter by one from `start`, default `1`.
+ * - `'offset'`: increment the `param` query parameter by the number of items from `start`, default `0`.
+ *
+ * Page and offset strategies stop before the first page without items, given by `items` or by the page itself if it
+ * is an array, so they require `items` for typed pages that are not arrays. Untyped pages that are not arrays without
+ * `items` are yielded, but end the iteration. At most `limit` pages are requested.
+ */
+export type ClientPagination<
+    MethodSpec = DefaultSpec[string][DefaultMethod], //
+    Page = unknown,
+    Item = never,
+> = (
+    | { strategy: 'link' }
+    | { strategy: 'cursor'; param: keyof Get<MethodSpec, 'query'> & string; cursor: (page: Page) => unknown }
+    | ({ strategy: 'page' | 'offset'; param: keyof Get<MethodSpec, 'query'> & string; start?: number } &
+          PageItems<Page, Item>)
+) & {
+    items?: (page: Page) => Item[]
+    limit?: number
+}
+
+/**
+ * Required `items` of page and offset strategies, unless the pages are arrays or untyped.
+ */
+type PageItems<Page, Item> = unknown extends Page
+    ? {}
+    : [Page] extends [readonly unknown[]]
+      ? {}
+      : { items: (page: Page) => Item[] }
+
+/**
+ * Body of a page iterated by {@linkcode Client} `paginate`.
+ */
+export type ClientPage<
+    MethodSpec = DefaultSpec[string][DefaultMethod], //
+    Request = ClientRequest<MethodSpec, unknown>,
+> = ClientResponse<MethodSpec, unknown, Request>['body']
+
+/**
+ * OpenAPI serialization of the parameters of a location, overridden by parameter name in `parameters`.
+ */
+export type ClientParameterStyle<Style extends string> = {
+    style?: Style
+    explode?: boolean
+    parameters?: { [_ in string]?: { style?: Style; explode?: boolean } }
+}
+
+/**
+ * Transfer progress of a request or response body.
+ */
+export type ClientProgress = {
+    /** Transferred bytes. */
+    loaded: number
+    /** Total bytes to transfer, if known. */
+    total: number | undefined
+}
+
+/**
+ * Onion-style middleware wrapping a request attempt.
+ *
+ * The middleware receives the attempt {@linkcode Request} and `next`, which calls the next middleware or
+ * {@linkcode fetch}. It may change the request, call `next` multiple times (cloning the request first), observe
+ * failures, or short-circuit by returning a synthetic {@linkcode Response} without calling `next`.
+ *
+ * @param request Attempt request.
+ * @param next Next middleware in the pipeline.
+ */
+export type Middleware = (
+    request: Request,
+    next: (request: Request) => Promise<Response>,
+) => Response | Promise<Response>
 
 /**
  * ClientResponse wraps request and response objects and provide a typed `status` and `body`.
@@ -200,8 +602,49 @@ export type ClientResponse<
     BodyOverride = unknown,
     Request = ClientRequest<MethodSpec, unknown>,
 > = unknown extends BodyOverride
-    ? ResolveStatuses<Get<MethodSpec, 'responses'>, RequestStatus<Request>[number], Request>
-    : ResponseEntry<number, BodyOverride, Request>
+    ? ValidatedEntry<
+          ResolveStatuses<
+              AcceptedResponses<MethodSpec, Get<Request, 'accept'>>,
+              Get<MethodSpec, 'responseHeaders', {}>,
+              RequestStatus<Request>[number],
+              Request
+          >,
+          Request
+      >
+    : ResponseEntry<number, BodyOverride, Request, RawHeaders>
+
+/**
+ * The result of a {@linkcode Client} call, a {@linkcode ClientResponse} unless the request sets `throw: false`.
+ *
+ * Non-throwing calls resolve to `{ ok: true }` with the response, or `{ ok: false }` with a {@linkcode ClientError}
+ * typed from the spec's `3XX`, `4XX` and `5XX` responses, narrowable by `status`.
+ */
+export type ClientResult<
+    MethodSpec = DefaultSpec[string][DefaultMethod],
+    BodyOverride = unknown,
+    Request = ClientRequest<MethodSpec, unknown>,
+> = [Get<Request, 'throw'>] extends [false]
+    ?
+          | ({ ok: true } & ClientResponse<MethodSpec, BodyOverride, Request>)
+          | { ok: false; error: [ClientError_<MethodSpec>] extends [never] ? ClientError : ClientError_<MethodSpec> }
+    : ClientResponse<MethodSpec, BodyOverride, Request>
+
+/**
+ * The spec responses, with the bodies of the `Accept` media type for responses declaring it.
+ */
+type AcceptedResponses<MethodSpec, Accept> = [Accept] extends [string]
+    ? string extends Accept
+        ? Get<MethodSpec, 'responses'>
+        : Get<MethodSpec, 'responses'> extends infer Responses
+          ? Get<MethodSpec, 'responseContent', {}> extends infer Content
+              ? {
+                    [Status in keyof Responses]: Accept extends keyof Get<Content, Status, {}>
+                        ? Get<Content, Status, {}>[Accept]
+                        : Responses[Status]
+                }
+              : never
+          : never
+    : Get<MethodSpec, 'responses'>
 
 /**
  * The requested status codes, defaulting to `[2]` when none were explicitly provided.
@@ -219,16 +662,21 @@ type RequestStatus<Request> = [Get<Request, 'status'>] extends [number[]] ? Get<
  * Wildcards (single block digits, e.g. `2`) and exact codes (e.g. `200`) are resolved separately
  * since the responses map already has its wildcards expanded into exact codes with collisions handled.
  */
-type ResolveStatuses<Responses, Codes extends number, Request> =
-    | ResolveExact<Responses, Exclude<Codes, StatusBlock>, Request>
-    | ResolveWildcard<Responses, Extract<Codes, StatusBlock>, Request>
+type ResolveStatuses<Responses, Headers, Codes extends number, Request> =
+    | ResolveExact<Responses, Headers, Exclude<Codes, StatusBlock>, Request>
+    | ResolveWildcard<Responses, Headers, Extract<Codes, StatusBlock>, Request>
 
 /**
- * Resolve an exact code: exact response > fallback (`-1`) > `unknown`.
+ * Resolve an exact code: exact response > fallback (`-1`) > `unknown`, and the same for its headers.
  * The literal code is always preserved as the entry `status`.
  */
-type ResolveExact<Responses, Codes extends number, Request> = Codes extends number
-    ? ResponseEntry<Codes, Codes extends keyof Responses ? Responses[Codes] : FallbackBody<Responses>, Request>
+type ResolveExact<Responses, Headers, Codes extends number, Request> = Codes extends number
+    ? ResponseEntry<
+          Codes,
+          Codes extends keyof Responses ? Responses[Codes] : FallbackBody<Responses>,
+          Request,
+          Codes extends keyof Headers ? Headers[Codes] : FallbackHeaders<Headers>
+      >
     : never
 
 /**
@@ -239,31 +687,75 @@ type ResolveExact<Responses, Codes extends number, Request> = Codes extends numb
  * The block is expanded to literal codes (rather than collapsed to `number`) so the fallback body stays
  * confined to its own status codes and does not leak into the narrowing of unrelated codes.
  */
-type ResolveWildcard<Responses, Wilds extends StatusBlock, Request> = Wilds extends StatusBlock
+type ResolveWildcard<Responses, Headers, Wilds extends StatusBlock, Request> = Wilds extends StatusBlock
     ? Extract<ExpandBlock<Wilds>, keyof Responses> extends infer Matched
         ? [Matched] extends [never]
             ? ExpandBlock<Wilds> extends infer Code
                 ? Code extends number
-                    ? ResponseEntry<Code, FallbackBody<Responses>, Request>
+                    ? ResponseEntry<Code, FallbackBody<Responses>, Request, FallbackHeaders<Headers>>
                     : never
                 : never
             : Matched extends number
-              ? ResponseEntry<Matched, Get<Responses, Matched>, Request>
+              ? ResponseEntry<
+                    Matched,
+                    Get<Responses, Matched>,
+                    Request,
+                    Get<Headers, Matched, FallbackHeaders<Headers>>
+                >
               : never
         : never
     : never
 
+/** Replace the body of resolved entries with the output type of the request `validate` response validator. */
+type ValidatedEntry<Entry, Request> =
+    ValidateOutput<Get<Request, 'validate'>> extends infer Output
+        ? unknown extends Output
+            ? Entry
+            : Entry extends { status: infer Status extends number; headers: infer Headers }
+              ? ResponseEntry<Status, Output, Request, Headers>
+              : never
+        : never
+
+/** Output type of a `validate` option, `unknown` if it does not validate the response. */
+type ValidateOutput<Validate> =
+    Validate extends StandardSchema ? StandardOutput<Validate> : StandardOutput<Get<Validate, 'response'>>
+
 /** Body of the fallback (`-1`) response, or `unknown` when the spec declares no fallback. */
 type FallbackBody<Responses> = StatusDefault extends keyof Responses ? Responses[StatusDefault] : unknown
 
-/** A single resolved response: typed `status` and `body` alongside the raw request/response objects. */
-type ResponseEntry<Status extends number, Body, Request> = {
+/** A response recovered by `interceptError`, its `headers` are read from `response` if missing. */
+type RecoveredEntry = Omit<ResponseEntry<number, unknown, Request, RawHeaders>, 'headers'> & { headers?: RawHeaders }
+
+/** Headers of the fallback (`-1`) response, or the raw headers when the spec declares no fallback. */
+type FallbackHeaders<Headers> = StatusDefault extends keyof Headers ? Headers[StatusDefault] : RawHeaders
+
+/** Response headers by lowercase name, as received. */
+type RawHeaders = { [_ in string]: string }
+
+/**
+ * A single resolved response: typed `status`, `headers` and `body` alongside the raw request/response objects.
+ *
+ * `headers` holds the response headers by lowercase name, and the headers declared for the status by their declared
+ * name, parsed by their schemas if the request sets `openapi`.
+ */
+type ResponseEntry<Status extends number, Body, Request, Headers> = {
     status: Status
+    headers: EntryHeaders<Headers, Request>
     body: Body
     request: Request
     response: Response
 }
 
+/**
+ * Declared response headers by their declared name and parsed if the request sets `openapi`, or by lowercase name
+ * as received otherwise.
+ */
+type EntryHeaders<Headers, Request> = [Get<Request, 'openapi'>] extends [OpenApiValidator]
+    ? Headers
+    : string extends keyof Headers
+      ? Headers
+      : { [Name in keyof Headers as Lowercase<Name & string>]: string }
+
 type ClientError_<MethodSpec> =
     PickStatus<Get<MethodSpec, 'responses'>, ExpandBlock<3 | 4 | 5>> extends infer Errors
         ? {
@@ -276,6 +768,14 @@ type PickStatus<Responses, Statuses> = Pick<Responses, Statuses & keyof Response
 
 /**
  * ClientError wraps request and response objects and provide a typed `status` and `body`.
+ *
+ * `error` is the error thrown by {@linkcode fetch}, or the failure reason: `'status'` for status check failures,
+ * `'replay'` for retries refused because of a non-replayable body, `'circuit'` for attempts rejected by an open
+ * circuit breaker, and `'validation'` for bodies failing `validate`, whose `issues` are available. `attempts` counts
+ * the performed attempts and `cause` holds the last error thrown by {@linkcode fetch}, if any.
+ *
+ * If the failed response is `application/problem+json` (RFC 9457), its body is also available as `problem`, and its
+ * `title` and `detail` are used as the error message.
  */
 export class ClientError<Status = number, Body = unknown> extends Error {
     public readonly request: Request
@@ -283,13 +783,44 @@ export class ClientError<Status = number, Body = unknown> extends Error {
     public readonly error: unknown | undefined
     public readonly status: Status | undefined
     public readonly body: Body | undefined
+    public readonly attempts: number
+    public readonly problem: (Body extends object ? ProblemDetails & Body : ProblemDetails) | undefined
+    public readonly issues: readonly StandardIssue[] | undefined
 
-    constructor(request: Request, response?: Response, error?: unknown, status?: Status, body?: Body) {
-        super(response?.statusText ?? String(error))
+    constructor(
+        request: Request,
+        response?: Response,
+        error?: unknown,
+        status?: Status,
+        body?: Body,
+        attempts = 1,
+        cause?: unknown,
+        issues?: readonly StandardIssue[],
+    ) {
+        const type = response?.headers.get('content-type') ?? ''
+        const isProblem = /^application\/problem\+json/i.test(type) && !!body && typeof body === 'object'
+        const problem = isProblem ? (body as ProblemDetails) : undefined
+        const message =
+            [problem?.title, problem?.detail].filter(v => v).join(': ') || issues?.map(i => i.message).join('; ')
+        super(message || (response?.statusText ?? String(error)), { cause })
+        this.problem = problem as ClientError<Status, Body>['problem']
         this.request = request
         this.response = response
         this.error = error
         this.status = status
         this.body = body
+        this.attempts = attempts
+        this.issues = issues
     }
 }
+
+/**
+ * RFC 9457 problem details object, extension members are typed by `Extensions`.
+ */
+export type ProblemDetails<Extensions = {}> = {
+    type?: string
+    title?: string
+    status?: number
+    detail?: string
+    instance?: string
+} & Extensions
@@ -1,3 +1,5 @@
+import type { AuthSecret, OAuth2Credentials } from '../auth'
+import type { ServerSentEvent } from '../stream'
 import { ClientSpec } from './client'
 import { Default, Deref, ExpandBlock, Get, StatusBlock, StatusDefault, UnionToIntersection } from './util'
 
@@ -13,6 +15,66 @@ export type FromOpenApiSpec<OpenApiSpec, Strict extends boolean = false> = Stric
       ? ResolvedPaths
       : never
 
+/**
+ * Combine OpenAPI Specification fragments into one specification, such as specs split by domain, so local `$ref`s
+ * of any fragment resolve against the components of all of them.
+ *
+ * `paths` and `webhooks` are merged by path and method, and `components` by section and name. Other keys and
+ * duplicated entries are taken from the first fragment that defines them.
+ *
+ * @param Specs The OpenAPI Specification fragments to combine.
+ */
+export type CombineOpenApiSpecs<Specs extends unknown[]> = Specs extends [infer Spec, ...infer Rest]
+    ? CombineOpenApiSpecs<Rest> extends infer Combined
+        ? {
+              [Key in keyof Spec | keyof Combined]: Key extends 'paths' | 'webhooks' | 'components'
+                  ? MergeMaps<Get<Spec, Key, {}>, Get<Combined, Key, {}>, true>
+                  : Key extends keyof Spec
+                    ? Spec[Key]
+                    : Get<Combined, Key>
+          }
+        : never
+    : {}
+
+/**
+ * Merge two maps, preferring entries of `First`, and merging entries present in both one level deeper if `Deep`.
+ */
+type MergeMaps<First, Second, Deep extends boolean = false> = {
+    [Key in keyof First | keyof Second]: Key extends keyof First
+        ? Key extends keyof Second
+            ? Deep extends true
+                ? MergeMaps<First[Key], Second[Key]>
+                : First[Key]
+            : First[Key]
+        : Get<Second, Key>
+}
+
+/**
+ * Credentials of the security schemes of an OpenAPI Specification, keyed by scheme name, see `openApiAuth`:
+ * - `apiKey`, `openIdConnect`, and non-basic `http` schemes, such as `bearer`, take an {@linkcode AuthSecret}.
+ * - `http` basic schemes take a `username` and `password`.
+ * - `oauth2` schemes take an {@linkcode AuthSecret} access token or {@linkcode OAuth2Credentials}.
+ *
+ * @param OpenApiSpec The OpenAPI Specification type declaring `components.securitySchemes`.
+ */
+export type OpenApiCredentials<OpenApiSpec> =
+    Get<Get<OpenApiSpec, 'components'>, 'securitySchemes', {}> extends infer Schemes
+        ? { [Name in keyof Schemes]?: SchemeCredentials<Deref<OpenApiSpec, Schemes[Name]>> }
+        : never
+
+/**
+ * Credentials of a security scheme, see {@linkcode OpenApiCredentials}.
+ */
+type SchemeCredentials<Scheme> = Scheme extends { type: 'http'; scheme: infer Name extends string }
+    ? Lowercase<Name> extends 'basic'
+        ? { username: string; password: string }
+        : AuthSecret
+    : Scheme extends { type: 'oauth2' }
+      ? AuthSecret | OAuth2Credentials
+      : Scheme extends { type: 'apiKey' | 'openIdConnect' }
+        ? AuthSecret
+        : never
+
 /**
  * Parse the OpenAPI `paths` map into a `ClientSpec` paths map.
  */
@@ -37,9 +99,20 @@ type ParseMethod<Spec, RawPath, RawMethod> = {
     cookie: ParseParameters<Spec, MergedParameters<RawPath, RawMethod>, 'cookie'>
     query: ParseParameters<Spec, MergedParameters<RawPath, RawMethod>, 'query' | 'querystring'>
     request: ParseBody<Spec, Get<RawMethod, 'requestBody'>, 'request'>
+    requestContent: ParseContent<Spec, Get<RawMethod, 'requestBody'>, 'request'>
     responses: ParseResponses<Spec, Get<RawMethod, 'responses'>>
+    responseContent: ParseResponseContent<Spec, Get<RawMethod, 'responses'>>
+    responseHeaders: ParseResponseHeaders<Spec, Get<RawMethod, 'responses'>>
+    security: ParseSecurity<Spec, RawMethod>
 }
 
+/**
+ * Parse the `security` requirements of an operation, or of the spec if the operation declares none, into the union of
+ * its alternative requirements, each mapping security scheme names to scopes. `{}` allows anonymous requests, and
+ * operations without requirements result in `never`.
+ */
+type ParseSecurity<Spec, RawMethod> = Default<Get<RawMethod, 'security', Get<Spec, 'security'>>, unknown[], []>[number]
+
 /**
  * Concatenate path-level and operation-level parameters.
  */
@@ -89,6 +162,47 @@ type ParseResponses<Spec, RawResp> = {
     [K in keyof RawResp as ResolveStatus<keyof RawResp, K>]: ParseBody<Spec, RawResp[K], 'response'>
 }
 
+/**
+ * Parse the body of each response by media type, keyed by resolved status code like {@linkcode ParseResponses}.
+ */
+type ParseResponseContent<Spec, RawResp> = {
+    [K in keyof RawResp as ResolveStatus<keyof RawResp, K>]: ParseContent<Spec, RawResp[K], 'response'>
+}
+
+/**
+ * Parse the `headers` of each response, keyed by resolved status code like {@linkcode ParseResponses}.
+ */
+type ParseResponseHeaders<Spec, RawResp> = {
+    [K in keyof RawResp as ResolveStatus<keyof RawResp, K>]: ParseHeaders<Spec, Get<Deref<Spec, RawResp[K]>, 'headers'>>
+}
+
+/**
+ * Parse a response `headers` map into an object keyed by header name. `$ref`s are dereferenced to their target path.
+ *
+ * Non-required headers are optional, and `content-type` is ignored as defined by OpenAPI.
+ */
+type ParseHeaders<Spec, RawHeaders> = {
+    [Name in keyof RawHeaders as HeaderKey<Spec, RawHeaders[Name], Name, true>]: ParseSchema<
+        Spec,
+        Get<Deref<Spec, RawHeaders[Name]>, 'schema'>
+    >
+} & {
+    [Name in keyof RawHeaders as HeaderKey<Spec, RawHeaders[Name], Name, false>]?: ParseSchema<
+        Spec,
+        Get<Deref<Spec, RawHeaders[Name]>, 'schema'>
+    >
+}
+
+/**
+ * Keep a header `Name` if its requiredness matches `Required`, dropping `content-type`.
+ */
+type HeaderKey<Spec, RawHeader, Name, Required> =
+    Lowercase<Name & string> extends 'content-type'
+        ? never
+        : (Deref<Spec, RawHeader> extends { required: true } ? true : false) extends Required
+          ? Name
+          : never
+
 /**
  * Resolve a response key to a numeric status.
  *
@@ -107,34 +221,95 @@ type ResolveStatus<Statuses, Key> = Key extends `${infer Status extends number}`
         : never
 
 /**
- * Parse the schema from a request or response body's `content`.
+ * Parse a request or response body into the union of its media type bodies, see {@linkcode ParseContent}.
+ */
+type ParseBody<Spec, RawBody, In> =
+    ParseContent<Spec, RawBody, In> extends infer Content
+        ? [keyof Content] extends [never]
+            ? undefined
+            : Content[keyof Content]
+        : never
+
+/**
+ * Parse the `content` of a request or response body into a map of bodies by media type, see {@linkcode ParseMedia}.
  *
  * Request bodies that are not `required` are made optional (`| undefined`); response bodies are always taken as-is.
  */
-type ParseBody<Spec, RawBody, In> =
+type ParseContent<Spec, RawBody, In> =
     Deref<Spec, RawBody> extends infer Raw
-        ? (
-              Raw extends { content: { [_ in string]: { schema: infer Body } } } ? ParseSchema<Spec, Body> : undefined
-          ) extends infer Schema
-            ? In extends 'response'
-                ? Schema
-                : Raw extends { required: true }
-                  ? Schema
-                  : Schema | undefined
+        ? Get<Raw, 'content'> extends infer Content
+            ? {
+                  [Media in keyof Content]:
+                      | ParseMedia<Spec, Media, Content[Media], In>
+                      | (In extends 'response' ? never : Raw extends { required: true } ? never : undefined)
+              }
             : never
         : never
 
+/**
+ * Parse the body of a media type as the client serializes or parses it by default:
+ * - JSON media types and media type ranges use the `schema`.
+ * - Streamed response bodies become {@linkcode AsyncIterable}s, of `itemSchema` items if declared.
+ * - Plain text and XML bodies are strings.
+ * - Form bodies use the `schema`, `FormData` or `URLSearchParams` instances are also accepted in requests and
+ *   returned by responses.
+ * - Other media types are binary, `BodyInit` in requests and {@linkcode Blob} in responses.
+ */
+type ParseMedia<Spec, Media, RawMedia, In> = In extends 'response'
+    ? RawMedia extends { itemSchema: infer Item }
+        ? AsyncIterable<ParseSchema<Spec, Item, In>>
+        : Media extends JsonMedia | `${string}*${string}`
+          ? ParseSchema<Spec, Get<RawMedia, 'schema', true>, In>
+          : Media extends `text/event-stream${string}`
+            ? AsyncIterable<ServerSentEvent>
+            : Media extends `application/${'x-ndjson' | 'jsonl'}${string}`
+              ? AsyncIterable<unknown>
+              : Media extends TextMedia
+                ? string
+                : Media extends `multipart/form-data${string}`
+                  ? FormData
+                  : Media extends `application/x-www-form-urlencoded${string}`
+                    ? URLSearchParams
+                    : Blob
+    : Media extends JsonMedia | `${string}*${string}`
+      ? ParseSchema<Spec, Get<RawMedia, 'schema', true>, In>
+      : Media extends `multipart/form-data${string}`
+        ? ParseSchema<Spec, Get<RawMedia, 'schema', true>, In> | FormData
+        : Media extends `application/x-www-form-urlencoded${string}`
+          ? ParseSchema<Spec, Get<RawMedia, 'schema', true>, In> | URLSearchParams
+          : Media extends TextMedia
+            ? string
+            : BodyInit
+
+/**
+ * JSON media types, serialized and parsed as JSON.
+ */
+type JsonMedia = `application/json${string}` | `${string}+json${string}`
+
+/**
+ * Plain text and XML media types, serialized and parsed as text.
+ */
+type TextMedia = `text/plain${string}` | `${'application' | 'text'}/xml${string}` | `${string}+xml${string}`
+
 /**
  * Convert a JSON Schema into its TypeScript type. `$ref`s are dereferenced to their target path.
  *
- * This type handles primitives, objects, arrays, null type, `const`/`enum`, `allOf`/`anyOf`/`oneOf`, and boolean
- * schemas (`true`/`false`). It also handles `nullable` and `type` arrays.
+ * This type handles primitives, objects, arrays, tuples (`prefixItems`), null type, `const`/`enum`, boolean schemas
+ * (`true`/`false`), `allOf` as intersections, and `anyOf`/`oneOf` as unions, discriminated by the `discriminator`
+ * property if declared. It also handles `nullable` and `type` arrays, `if`/`then`/`else` as the union of both
+ * branches, `patternProperties` as template literal keys, and binary strings (`format: binary`) as
+ * {@linkcode Blob}s. Keywords that cannot be expressed as types, such as `not` or other formats, are ignored, and
+ * schemas without type keywords are `unknown`.
+ *
+ * `readOnly` properties are dropped from `'request'` schemas and `writeOnly` properties from `'response'` schemas.
  *
  * It covers a mix of OpenAPI 3.0.x, 3.1.x, and 3.2.x, but does not implement the full JSON Schema specification.
  *
  * It is optimized to handle most common schema types first, such as `string`, `object`, and `array`.
+ *
+ * @param In Where the schema is used, `'request'` or `'response'`, or `unknown` to keep all properties.
  */
-export type ParseSchema<Spec, RawSchema> =
+export type ParseSchema<Spec, RawSchema, In = unknown> =
     Deref<Spec, RawSchema> extends infer Raw
         ?
               | (Raw extends {
@@ -144,13 +319,16 @@ export type ParseSchema<Spec, RawSchema> =
                     allOf?: never
                     anyOf?: never
                     oneOf?: never
+                    if?: never
                 }
                     ? Type extends 'string'
-                        ? string
+                        ? Raw extends { format: 'binary' }
+                            ? Blob
+                            : string
                         : Type extends 'object'
-                          ? StrictParseSchemaObject<Spec, Raw>
+                          ? StrictParseSchemaObject<Spec, Raw, In>
                           : Type extends 'array'
-                            ? StrictParseSchemaArray<Spec, Raw>
+                            ? StrictParseSchemaArray<Spec, Raw, In>
                             : Type extends 'number' | 'integer'
                               ? number
                               : Type extends 'boolean'
@@ -158,51 +336,158 @@ export type ParseSchema<Spec, RawSchema> =
                                 : Type extends 'null'
                                   ? null
                                   : Type extends [infer Head, ...infer Tail]
-                                    ? ParseSchema<Spec, { type: Head | Tail } & Omit<Raw, 'type'>>
+                                    ? ParseSchema<Spec, { type: Head | Tail } & Omit<Raw, 'type'>, In>
                                     : never
                     : Raw extends { enum: (infer Item)[] }
                       ? Item
                       : Raw extends { const: infer Const }
                         ? Const
-                        : Raw extends true | { allOf: [] } | { anyOf: [] } | { oneOf: [] }
+                        : Raw extends true
                           ? unknown
                           : Raw extends false
                             ? never
-                            : Raw extends { allOf: [infer Head, ...infer Tail] }
-                              ? ParseSchema<Spec, Head> & ParseSchema<Spec, { allOf: Tail }>
-                              : Raw extends { anyOf: [infer Head, ...infer Tail] }
-                                ? Partial<ParseSchema<Spec, Head>> & ParseSchema<Spec, { anyOf: Tail }>
-                                : Raw extends { oneOf: [infer Head, ...infer Tail] }
-                                  ? Partial<ParseSchema<Spec, Head>> & ParseSchema<Spec, { oneOf: Tail }>
-                                  : StrictParseSchemaObject<Spec, Raw>)
+                            : Raw extends { allOf: infer Schemas }
+                              ? ParseAllOf<Spec, Schemas, In> & ParseSchema<Spec, Omit<Raw, 'allOf'>, In>
+                              : Raw extends
+                                      | { anyOf: infer Schemas extends unknown[] }
+                                      | { oneOf: infer Schemas extends unknown[] }
+                                ? ParseOneOf<Spec, Schemas, Get<Raw, 'discriminator'>, In> &
+                                      ParseSchema<Spec, Omit<Raw, 'anyOf' | 'oneOf'>, In>
+                                : Raw extends { if: unknown }
+                                  ? (
+                                        | ParseSchema<Spec, Get<Raw, 'then', true>, In>
+                                        | ParseSchema<Spec, Get<Raw, 'else', true>, In>
+                                    ) &
+                                        ParseSchema<Spec, Omit<Raw, 'if' | 'then' | 'else'>, In>
+                                  : Raw extends
+                                          | { properties: unknown }
+                                          | { additionalProperties: unknown }
+                                          | { patternProperties: unknown }
+                                    ? StrictParseSchemaObject<Spec, Raw, In>
+                                    : Raw extends { items: unknown } | { prefixItems: unknown }
+                                      ? StrictParseSchemaArray<Spec, Raw, In>
+                                      : unknown)
               | (Raw extends { nullable: true } ? null : never)
         : never
 
 /**
- * Parse an object schema into a record type: `required` properties stay mandatory, the rest become optional,
- * and `additionalProperties` adds an index signature.
+ * Parse `allOf` subschemas into the intersection of their types.
+ */
+type ParseAllOf<Spec, Schemas, In> = Schemas extends [infer Head, ...infer Tail]
+    ? ParseSchema<Spec, Head, In> & ParseAllOf<Spec, Tail, In>
+    : unknown
+
+/**
+ * Parse `anyOf` or `oneOf` subschemas into the union of their types.
+ *
+ * With a `discriminator`, the discriminator property of each subschema is typed as its `mapping` keys, or as the last
+ * segment of its `$ref` if it is not mapped, such as `'Cat'` for `#/components/schemas/Cat`, so the union narrows by
+ * that property.
  */
-type StrictParseSchemaObject<Spec, Raw> = Raw extends (
-    | { type: 'object'; properties?: infer Properties }
-    | { type?: never; properties: infer Properties }
-    | { type?: never; additionalProperties: infer Additional }
-) & { required?: infer Required; additionalProperties?: infer Additional }
+type ParseOneOf<Spec, Schemas extends unknown[], Discriminator, In> = {
+    [I in keyof Schemas]: ParseSchema<Spec, Schemas[I], In> &
+        (Discriminator extends { propertyName: infer Property extends string }
+            ? { [_ in Property]: DiscriminatorValue<Schemas[I], Get<Discriminator, 'mapping'>> }
+            : unknown)
+}[number]
+
+/**
+ * Discriminator values of a subschema `$ref`: the `mapping` keys whose values are the `$ref` or its last segment, or
+ * the last segment itself if it is not mapped. Subschemas without `$ref`s keep their own property type.
+ */
+type DiscriminatorValue<RawSchema, Mapping> = RawSchema extends { $ref: infer Ref extends string }
+    ? LastSegment<Ref> extends infer Name
+        ? { [Key in keyof Mapping]: Mapping[Key] extends Ref | Name ? Key : never }[keyof Mapping] extends infer Keys
+            ? [Keys] extends [never]
+                ? Name
+                : Keys
+            : never
+        : never
+    : unknown
+
+/**
+ * Last segment of a `/` separated path, such as `Cat` for `#/components/schemas/Cat`.
+ */
+type LastSegment<Path> = Path extends `${string}/${infer Rest}` ? LastSegment<Rest> : Path
+
+/**
+ * Parse an object schema into a record type: `required` properties stay mandatory, the rest become optional, and
+ * `additionalProperties` and `patternProperties` add index signatures, see {@linkcode PatternKey}. `readOnly` and
+ * `writeOnly` properties are dropped by `In`, see {@linkcode ParseSchema}.
+ */
+type StrictParseSchemaObject<Spec, Raw, In> = Raw extends {
+    properties?: infer Properties
+    required?: infer Required
+    additionalProperties?: infer Additional
+    patternProperties?: infer Patterns
+}
     ? {
-          [K in keyof Properties as K extends Default<Required, string[], []>[number] ? K : never]: ParseSchema<
+          [K in keyof Properties as VisibleKey<Spec, Properties[K], K, Required, In, true>]: ParseSchema<
               Spec,
-              Properties[K]
+              Properties[K],
+              In
           >
       } & {
-          [K in keyof Properties as K extends Default<Required, string[], []>[number] ? never : K]?: ParseSchema<
+          [K in keyof Properties as VisibleKey<Spec, Properties[K], K, Required, In, false>]?: ParseSchema<
               Spec,
-              Properties[K]
+              Properties[K],
+              In
           >
-      } & (unknown extends Additional ? unknown : { [_: string]: ParseSchema<Spec, Additional> })
+      } & (unknown extends Patterns
+              ? unknown
+              : { [Pattern in keyof Patterns as PatternKey<Pattern>]: ParseSchema<Spec, Patterns[Pattern], In> }) &
+          (unknown extends Additional
+              ? unknown
+              : Additional extends false
+                ? unknown
+                : { [_: string]: ParseSchema<Spec, Additional, In> })
     : never
 
-/** Parse an array schema into `Item[]` from its `items` schema. */
-// TODO: implement prefixItems
-type StrictParseSchemaArray<Spec, Raw> = Raw extends { items: infer Item } ? ParseSchema<Spec, Item>[] : never
+/**
+ * Keep a property `Key` if its requiredness in `Required` matches `IsRequired`, dropping `readOnly` properties from
+ * requests and `writeOnly` properties from responses.
+ */
+type VisibleKey<Spec, RawProperty, Key, Required, In, IsRequired> =
+    (Key extends Default<Required, string[], []>[number] ? true : false) extends IsRequired
+        ? In extends 'request'
+            ? Deref<Spec, RawProperty> extends { readOnly: true }
+                ? never
+                : Key
+            : In extends 'response'
+              ? Deref<Spec, RawProperty> extends { writeOnly: true }
+                  ? never
+                  : Key
+              : Key
+        : never
+
+/**
+ * Convert a `patternProperties` regular expression into a template literal key, such as `` `x-${string}` `` for
+ * `^x-`. Literal prefixes, suffixes, and substrings are kept, other expressions fall back to `string`.
+ */
+type PatternKey<Pattern> = Pattern extends `${string}${'.' | '*' | '+' | '?' | '(' | '[' | '{' | '|' | '\\'}${string}`
+    ? string
+    : Pattern extends `^${infer Literal}$`
+      ? Literal
+      : Pattern extends `^${infer Prefix}`
+        ? `${Prefix}${string}`
+        : Pattern extends `${infer Suffix}$`
+          ? `${string}${Suffix}`
+          : Pattern extends string
+            ? `${string}${Pattern}${string}`
+            : string
+
+/**
+ * Parse an array schema into `Item[]` from its `items` schema, or into a tuple from its `prefixItems` schemas,
+ * followed by `items` unless `items: false` closes the tuple.
+ */
+type StrictParseSchemaArray<Spec, Raw, In> = Raw extends { prefixItems: infer Prefix extends unknown[] }
+    ? [
+          ...{ [I in keyof Prefix]: ParseSchema<Spec, Prefix[I], In> },
+          ...(Raw extends { items: false } ? [] : ParseSchema<Spec, Get<Raw, 'items', true>, In>[]),
+      ]
+    : Raw extends { items: false }
+      ? []
+      : ParseSchema<Spec, Get<Raw, 'items', true>, In>[]
 
 /**
  * Simplified version of OpenAPI Specification Types for reference.
@@ -218,8 +503,10 @@ type StrictParseSchemaArray<Spec, Raw> = Raw extends { items: infer Item } ? Par
 //@ts-ignore
 type OpenApiSpec = {
     openapi: `3.${number}.${number}`
-    servers?: { url: string }[]
+    servers?: { url: string; variables?: { [_ in string]: { default: string; enum?: string[] } } }[]
     paths?: { [path in string]: Path }
+    security?: SecurityRequirement[]
+    components?: { securitySchemes?: { [_ in string]: SecurityScheme | Reference } }
 }
 
 type Methods = 'get' | 'put' | 'post' | 'delete' | 'options' | 'head' | 'patch' | 'trace' | 'query'
@@ -236,6 +523,7 @@ type Operation = {
     parameters?: (Parameter | Reference)[]
     requestBody?: RequestBody | Reference
     responses?: { [_ in string]: ResponseBody | Reference }
+    security?: SecurityRequirement[]
 }
 
 type Parameter = {
@@ -266,6 +554,25 @@ type Reference = {
     $ref: string
 }
 
+type SecurityRequirement = { [scheme in string]: string[] }
+
+type SecurityScheme =
+    | { type: 'apiKey'; name: string; in: 'query' | 'header' | 'cookie' }
+    | { type: 'http'; scheme: string; bearerFormat?: string }
+    | {
+          type: 'oauth2'
+          flows: { [_ in 'implicit' | 'password' | 'clientCredentials' | 'authorizationCode']?: OAuthFlow }
+      }
+    | { type: 'openIdConnect'; openIdConnectUrl: string }
+    | { type: 'mutualTLS' }
+
+type OAuthFlow = {
+    authorizationUrl?: string
+    tokenUrl?: string
+    refreshUrl?: string
+    scopes: { [_ in string]: string }
+}
+
 type SchemaType = 'null' | 'boolean' | 'number' | 'integer' | 'string' | 'array' | 'object'
 
 type Schema =
@@ -0,0 +1,33 @@
+/**
+ * Standard Schema compatible validator, implemented by libraries such as Zod, Valibot, and ArkType.
+ *
+ * For full specification, see: https://standardschema.dev
+ */
+export type StandardSchema<Input = unknown, Output = Input> = {
+    readonly '~standard': {
+        readonly version: 1
+        readonly vendor: string
+        readonly validate: (value: unknown) => StandardResult<Output> | Promise<StandardResult<Output>>
+        readonly types?: { readonly input: Input; readonly output: Output } | undefined
+    }
+}
+
+/**
+ * Result of a {@linkcode StandardSchema} validation, either the output value or the failure issues.
+ */
+export type StandardResult<Output> =
+    | { readonly value: Output; readonly issues?: undefined }
+    | { readonly issues: readonly StandardIssue[] }
+
+/**
+ * Issue of a failed {@linkcode StandardSchema} validation.
+ */
+export type StandardIssue = {
+    readonly message: string
+    readonly path?: readonly (PropertyKey | { readonly key: PropertyKey })[] | undefined
+}
+
+/**
+ * Output type of a {@linkcode StandardSchema}.
+ */
+export type StandardOutput<Schema> = Schema extends StandardSchema<unknown, infer Output> ? Output : unknown
@@ -0,0 +1,93 @@
+import { expect, test } from 'bun:test'
+import { parseYaml } from './yaml'
+
+test('yaml mappings and sequences', () => {
+    const yaml = `
+# OpenAPI document
+openapi: 3.1.0
+info:
+  title: "Users: API"  # quoted
+  version: '1.0'
+paths:
+  /users/{id}:
+    get:
+      tags: [users, 'admin users']
+      parameters:
+        - name: id
+          in: path
+          required: true
+          schema: { type: integer, minimum: 1 }
+        -   name: fields
+            in: query
+      responses:
+        '200':
+          description: it's the user # comment
+          content: {}
+servers:
+- url: http://api.example.com/v1
+- - nested
+  - 2
+`
+    expect(parseYaml(yaml)).toEqual({
+        openapi: '3.1.0',
+        info: { title: 'Users: API', version: '1.0' },
+        paths: {
+            '/users/{id}': {
+                get: {
+                    tags: ['users', 'admin users'],
+                    parameters: [
+                        { name: 'id', in: 'path', required: true, schema: { type: 'integer', minimum: 1 } },
+                        { name: 'fields', in: 'query' },
+                    ],
+                    responses: { '200': { description: "it's the user", content: {} } },
+                },
+            },
+        },
+        servers: [{ url: 'http://api.example.com/v1' }, ['nested', 2]],
+    })
+})
+
+test('yaml scalars', () => {
+    const yaml = `
+null: [~, null, ]
+bool: [true, False]
+number: [1, -2.5, 0x1F, 1e3, .inf]
+string: [1.0.0, "a\\tb\\u00e9", 'it''s', 'a # b']
+empty:
+plain: a long
+  folded   text
+
+  paragraph
+literal: |
+  line 1
+    line 2
+
+folded: >-
+  a
+  b
+
+  c
+keep: |+
+  text
+
+flow: {
+  a: [1, 2],
+  b: c
+}
+`
+    expect(parseYaml(yaml)).toEqual({
+        null: [null, null],
+        bool: [true, false],
+        number: [1, -2.5, 31, 1000, Infinity],
+        string: ['1.0.0', 'a\tbé', "it's", 'a # b'],
+        empty: null,
+        plain: 'a long folded   text\nparagraph',
+        literal: 'line 1\n  line 2\n',
+        folded: 'a b\nc',
+        keep: 'text\n\n',
+        flow: { a: [1, 2], b: 'c' },
+    })
+    expect(parseYaml('[1, 2]')).toEqual([1, 2])
+    expect(() => parseYaml('a: &anchor 1')).toThrow(SyntaxError)
+    expect(() => parseYaml('a: [1, 2')).toThrow(SyntaxError)
+})
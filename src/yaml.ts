@@ -0,0 +1,258 @@
+/**
+ * Parse a YAML document into a JSON value.
+ *
+ * It supports the YAML subset used by OpenAPI documents: block mappings and sequences, flow collections, plain and
+ * quoted scalars (including multi-line ones), literal and folded block scalars, and comments. Scalars are resolved
+ * with the YAML 1.2 core schema. Anchors, aliases, tags, and complex keys are not supported.
+ *
+ * @param text YAML document.
+ */
+export const parseYaml = (text: string): unknown => {
+    const lines = text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/)
+    let index = 0
+
+    const skip = () => {
+        while (index < lines.length && (!content(lines[index]) || /^(?:---|\.\.\.)(?:\s|$)|^%/.test(lines[index])))
+            index++
+    }
+
+    const node = (minIndent: number): unknown => {
+        skip()
+        if (index === lines.length || indentOf(lines[index]) < minIndent) return null
+        const indent = indentOf(lines[index])
+        const text = content(lines[index])
+        if (/^-(?:\s|$)/.test(text)) return sequence(indent)
+        if (keyRegExp.test(text)) return mapping(indent)
+        index++
+        return inline(text, indent - 1)
+    }
+
+    const child = (indent: number, sequenceValue: boolean) => {
+        skip()
+        if (index === lines.length) return null
+        const next = indentOf(lines[index])
+        if (next > indent) return node(next)
+        return sequenceValue && next === indent && /^-(?:\s|$)/.test(content(lines[index])) ? sequence(indent) : null
+    }
+
+    const mapping = (indent: number) => {
+        const map: { [_ in string]: unknown } = {}
+        for (skip(); index < lines.length && indentOf(lines[index]) === indent; skip()) {
+            const text = content(lines[index])
+            const match = text.match(keyRegExp)
+            if (!match) throw new SyntaxError(`Invalid YAML mapping entry at line ${index + 1}`)
+            index++
+            const rest = text.slice(match[0].length).trim()
+            const key = /^["']/.test(match[1]) ? `${scalar(match[1])}` : match[1]
+            map[key] = rest ? inline(rest, indent) : child(indent, true)
+        }
+        return map
+    }
+
+    const sequence = (indent: number) => {
+        const list: unknown[] = []
+        for (skip(); index < lines.length && indentOf(lines[index]) === indent; skip()) {
+            const line = lines[index]
+            const text = content(line)
+            if (!/^-(?:\s|$)/.test(text)) break
+            const rest = text.slice(1).trim()
+            if (!rest) {
+                index++
+                list.push(child(indent, false))
+            } else if (/^-(?:\s|$)/.test(rest) || keyRegExp.test(rest)) {
+                lines[index] = `${line.slice(0, indent)} ${line.slice(indent + 1)}`
+                list.push(node(indent + 1))
+            } else {
+                index++
+                list.push(inline(rest, indent))
+            }
+        }
+        return list
+    }
+
+    const inline = (text: string, indent: number): unknown => {
+        if (/^[&*!]/.test(text)) throw new SyntaxError(`Unsupported YAML anchor, alias or tag at line ${index}`)
+        if (/^[|>]/.test(text)) return block(text, indent)
+        if (/^[[{]/.test(text)) {
+            while (!balanced(text) && index < lines.length) text += ` ${content(lines[index++])}`
+            return flow(text)
+        }
+        for (let next = index; next < lines.length; next++) {
+            if (!content(lines[next])) continue
+            if (indentOf(lines[next]) <= indent || /^(?:---|\.\.\.)(?:\s|$)/.test(lines[next])) break
+            text += ('\n'.repeat(next - index) || ' ') + content(lines[next])
+            index = next + 1
+        }
+        return scalar(text)
+    }
+
+    const block = (header: string, indent: number) => {
+        const [, style, chomp] = header.match(/^([|>])([+-]?)/)!
+        const rows: string[] = []
+        let blockIndent: number | undefined
+        for (; index < lines.length; index++) {
+            const line = lines[index]
+            if (line.trim() && indentOf(line) <= indent) break
+            if (line.trim()) blockIndent ??= indentOf(line)
+            rows.push(line.trim() ? line.slice(blockIndent) : '')
+        }
+        const trailing = rows.length - rows.findLastIndex(row => row) - 1
+        rows.splice(rows.length - trailing)
+        const value =
+            style === '|'
+                ? rows.join('\n')
+                : rows.reduce(
+                      (value, row, i) =>
+                          !i ? row : value + (!row ? '\n' : !rows[i - 1] ? '' : /^\s/.test(row) ? '\n' : ' ') + row,
+                      '',
+                  )
+        return !value || chomp === '-' ? value : `${value}\n${chomp === '+' ? '\n'.repeat(trailing) : ''}`
+    }
+
+    const value = node(0)
+    skip()
+    if (index < lines.length) throw new SyntaxError(`Unexpected YAML content at line ${index + 1}`)
+    return value
+}
+
+/**
+ * Match a block mapping key and its `:` indicator, capturing the key.
+ */
+const keyRegExp = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s'"[\]{},#&*!|>%@`].*?)\s*:(?:\s|$)/
+
+/**
+ * Indentation of a line, in spaces.
+ *
+ * @param line Line to measure.
+ */
+const indentOf = (line: string) => line.match(/^ */)![0].length
+
+/**
+ * Content of a line, without indentation and comments.
+ *
+ * Quotes are only tracked if they start a scalar, so apostrophes in plain scalars do not hide comments.
+ *
+ * @param line Line to read.
+ */
+const content = (line: string) => {
+    let quote = ''
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i]
+        if (quote) {
+            if (char === '\\' && quote === '"') i++
+            else if (char === quote) quote = ''
+        } else if ((char === '"' || char === "'") && /(?:^|[\s:[{,-])$/.test(line.slice(0, i).trimEnd() || ' ')) {
+            quote = char
+        } else if (char === '#' && (!i || /\s/.test(line[i - 1]))) {
+            return line.slice(0, i).trim()
+        }
+    }
+    return line.trim()
+}
+
+/**
+ * Check whether the flow collection brackets of a text are balanced, ignoring quoted strings.
+ *
+ * @param text Flow collection text.
+ */
+const balanced = (text: string) =>
+    [...text.replace(/"(?:[^"\\]|\\.)*"|'(?:[^']|'')*'/g, '')].reduce(
+        (depth, char) => depth + (char === '[' || char === '{' ? 1 : char === ']' || char === '}' ? -1 : 0),
+        0,
+    ) === 0
+
+/**
+ * Parse a flow collection, such as `[a, b]` or `{ a: 1, b: [2] }`.
+ *
+ * @param text Flow collection text.
+ */
+const flow = (text: string) => {
+    let pos = 0
+    const space = () => {
+        while (/\s/.test(text[pos] ?? '')) pos++
+    }
+    const expect = (char: string) => {
+        space()
+        if (pos >= text.length) throw new SyntaxError(`Unterminated YAML flow collection: ${text}`)
+        if (text[pos] === ',') pos++
+        space()
+        return text[pos] === char ? (pos++, true) : false
+    }
+    const token = () => {
+        space()
+        const match = text
+            .slice(pos)
+            .match(/^(?:"(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|(?:[^,[\]{}:\s]|:(?![\s,[\]{}]|$)|\s+(?=[^\s,[\]{}:]))*)/)!
+        if (!match[0] && !/^[,\]}]/.test(text[pos] ?? ''))
+            throw new SyntaxError(`Invalid YAML flow collection: ${text}`)
+        pos += match[0].length
+        return scalar(match[0])
+    }
+    const value = (): unknown => {
+        space()
+        if (text[pos] === '[') {
+            pos++
+            const list: unknown[] = []
+            while (!expect(']')) list.push(value())
+            return list
+        }
+        if (text[pos] === '{') {
+            pos++
+            const map: { [_ in string]: unknown } = {}
+            while (!expect('}')) {
+                const key = `${token()}`
+                space()
+                map[key] = text[pos] === ':' ? (pos++, value()) : null
+            }
+            return map
+        }
+        return token()
+    }
+    return value()
+}
+
+/**
+ * Resolve a scalar with the YAML 1.2 core schema, unquoting quoted scalars.
+ *
+ * @param text Scalar text.
+ */
+const scalar = (text: string): unknown => {
+    if (text.startsWith('"')) return text.slice(1, -1).replace(/\\(x..|u....|U........|.)/gs, unescapeChar)
+    if (text.startsWith("'")) return text.slice(1, -1).replace(/''/g, "'")
+    if (/^(?:|~|null|Null|NULL)$/.test(text)) return null
+    if (/^(?:true|True|TRUE|false|False|FALSE)$/.test(text)) return /^t/i.test(text)
+    if (/^[-+]?\d+$|^0x[\da-fA-F]+$/.test(text)) return +text
+    if (/^0o[0-7]+$/.test(text)) return parseInt(text.slice(2), 8)
+    if (/^[-+]?(?:\.\d+|\d+(?:\.\d*)?)(?:[eE][-+]?\d+)?$/.test(text)) return +text
+    if (/^[-+]?\.(?:inf|Inf|INF)$/.test(text)) return text.startsWith('-') ? -Infinity : Infinity
+    if (/^\.(?:nan|NaN|NAN)$/.test(text)) return NaN
+    return text
+}
+
+/**
+ * Unescape a double-quoted scalar escape sequence.
+ *
+ * @param _ Escape sequence.
+ * @param code Escaped character or code point.
+ */
+const unescapeChar = (_: string, code: string) =>
+    /^[xuU]/.test(code) ? String.fromCodePoint(parseInt(code.slice(1), 16)) : (escapes[code] ?? code)
+
+/**
+ * Characters of the double-quoted scalar escape sequences, other escaped characters stand for themselves.
+ */
+const escapes: { [_ in string]?: string } = {
+    0: '\0',
+    a: '\x07',
+    b: '\b',
+    t: '\t',
+    n: '\n',
+    v: '\v',
+    f: '\f',
+    r: '\r',
+    e: '\x1b',
+    N: '\x85',
+    _: '\xa0',
+    L: '\u2028',
+    P: '\u2029',
+}